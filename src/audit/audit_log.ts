@@ -0,0 +1,237 @@
+/**
+ * Append-only audit log of side-effecting tool calls
+ * Every call of a tool not annotated as read-only (sending email, deleting
+ * events, writing files, running code) is recorded in the AUDIT_DB D1 database
+ * with its caller, time, redacted arguments, outcome and the ids of what it
+ * created or changed. Rows are only ever inserted. The table is created on first use:
+ *   audit_log(created_at, caller_id, tool, arguments, success, error_code, affected)
+ */
+import { Env } from "../types/index.js";
+import { sha256Hex } from "../utils/crypto_utils";
+import { consoleLogger } from "../utils/log_utils";
+
+// Argument names whose values are never stored
+const SECRET_ARGUMENT_PATTERN = /pass(word)?|secret|token|api[-_]?key|authorization|cookie|credential/i;
+
+// Arguments naming what a call acts on or how, the only strings stored as is.
+// Any other string may be user content (email text, commands, event
+// descriptions) and is stored as length and hash only
+const PLAIN_ARGUMENTS = new Set([
+  "path", "url", "language", "model", "size", "response_format",
+  "to", "cc", "attendees", "startTime", "endTime", "timezone",
+]);
+
+// Arguments holding an id, e.g. sandboxId, eventId, originalMessageId
+const ID_ARGUMENT_PATTERN = /Ids?$/;
+
+// Longest plain string argument stored as is, longer ones are cut off
+const MAX_ARGUMENT_LENGTH = 200;
+
+// One side-effecting tool call
+export interface AuditEntry {
+  // Caller id (see getCallerId), "anonymous" for callers without credentials
+  callerId: string;
+  tool: string;
+  arguments: unknown;
+  success: boolean;
+  // ToolErrorCode of failed calls
+  errorCode?: string;
+  // Ids of what the call created or changed, e.g. messageId, eventId, etag
+  affected: Record<string, string>;
+}
+
+// Audit entry as returned by /audit
+export interface AuditRecord {
+  id: number;
+  createdAt: string;
+  callerId: string;
+  tool: string;
+  arguments: unknown;
+  success: boolean;
+  errorCode?: string;
+  affected: Record<string, string>;
+}
+
+// Filters of an audit query, times in ms since epoch
+export interface AuditQuery {
+  from: number;
+  to: number;
+  callerId?: string;
+  tool?: string;
+  limit: number;
+  // Only entries with a smaller id, for paging backwards in time
+  before?: number;
+}
+
+interface AuditRow {
+  id: number;
+  created_at: number;
+  caller_id: string;
+  tool: string;
+  arguments: string;
+  success: number;
+  error_code: string | null;
+  affected: string;
+}
+
+// Databases whose schema was created by this isolate
+const initializedDatabases = new WeakSet<D1Database>();
+
+export class AuditLog {
+  constructor(private readonly db: D1Database) {}
+
+  /**
+   * Open the audit log configured in the environment
+   *
+   * @param env - Worker environment
+   * @returns The log, or undefined if AUDIT_DB is not bound
+   */
+  static fromEnv(env?: Env): AuditLog | undefined {
+    return env?.AUDIT_DB ? new AuditLog(env.AUDIT_DB) : undefined;
+  }
+
+  /**
+   * Append an entry, redacting its arguments
+   *
+   * @param entry - The call
+   * @param now - Time of the call, in ms since epoch
+   */
+  async append(entry: AuditEntry, now = Date.now()): Promise<void> {
+    await this.ensureSchema();
+    await this.db.prepare(
+      `INSERT INTO audit_log (created_at, caller_id, tool, arguments, success, error_code, affected)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      now,
+      entry.callerId,
+      entry.tool,
+      JSON.stringify(await redactArguments(entry.arguments)),
+      entry.success ? 1 : 0,
+      entry.errorCode ?? null,
+      JSON.stringify(entry.affected)
+    ).run();
+  }
+
+  /**
+   * List entries, newest first
+   *
+   * @param query - Time range, filters and page size
+   * @returns Matching entries
+   */
+  async query(query: AuditQuery): Promise<AuditRecord[]> {
+    await this.ensureSchema();
+
+    const conditions = ["created_at >= ?", "created_at <= ?"];
+    const params: unknown[] = [query.from, query.to];
+    if (query.callerId) {
+      conditions.push("caller_id = ?");
+      params.push(query.callerId);
+    }
+    if (query.tool) {
+      conditions.push("tool = ?");
+      params.push(query.tool);
+    }
+    if (query.before !== undefined) {
+      conditions.push("id < ?");
+      params.push(query.before);
+    }
+
+    const { results } = await this.db.prepare(
+      `SELECT * FROM audit_log WHERE ${conditions.join(" AND ")} ORDER BY id DESC LIMIT ?`
+    ).bind(...params, query.limit).all<AuditRow>();
+
+    return results.map(row => ({
+      id: row.id,
+      createdAt: new Date(row.created_at).toISOString(),
+      callerId: row.caller_id,
+      tool: row.tool,
+      arguments: JSON.parse(row.arguments),
+      success: row.success === 1,
+      ...(row.error_code && { errorCode: row.error_code }),
+      affected: JSON.parse(row.affected),
+    }));
+  }
+
+  private async ensureSchema(): Promise<void> {
+    if (initializedDatabases.has(this.db)) {
+      return;
+    }
+    await this.db.batch([
+      this.db.prepare(
+        `CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at INTEGER NOT NULL,
+          caller_id TEXT NOT NULL,
+          tool TEXT NOT NULL,
+          arguments TEXT NOT NULL,
+          success INTEGER NOT NULL,
+          error_code TEXT,
+          affected TEXT NOT NULL
+        )`
+      ),
+      this.db.prepare("CREATE INDEX IF NOT EXISTS audit_log_created_at ON audit_log (created_at)"),
+      this.db.prepare("CREATE INDEX IF NOT EXISTS audit_log_caller ON audit_log (caller_id, created_at)"),
+    ]);
+    initializedDatabases.add(this.db);
+  }
+}
+
+/**
+ * Append a side-effecting tool call to the audit log, if it is enabled
+ * Failures are logged and never fail the call itself
+ *
+ * @param env - Worker environment
+ * @param entry - The call
+ */
+export async function recordAudit(env: Env | undefined, entry: AuditEntry): Promise<void> {
+  const log = AuditLog.fromEnv(env);
+  if (!log) {
+    return;
+  }
+
+  try {
+    await log.append(entry);
+  } catch (error) {
+    consoleLogger.error("Error writing audit log entry", {
+      tool: entry.tool,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Redact tool arguments before they are stored
+ * Secrets are dropped, ids and the other plain arguments are kept (long ones
+ * cut off), and every other string is replaced by its length and hash
+ *
+ * @param value - Arguments of the call
+ * @param name - Name of the argument holding the value
+ * @returns Redacted copy of the arguments
+ */
+export async function redactArguments(value: unknown, name?: string): Promise<unknown> {
+  if (name && SECRET_ARGUMENT_PATTERN.test(name)) {
+    return "[redacted]";
+  }
+
+  if (typeof value === "string") {
+    if (!name || !(PLAIN_ARGUMENTS.has(name) || ID_ARGUMENT_PATTERN.test(name))) {
+      return `[redacted: ${value.length} chars, sha256 ${(await sha256Hex(value)).substring(0, 16)}]`;
+    }
+    return value.length > MAX_ARGUMENT_LENGTH
+      ? `${value.substring(0, MAX_ARGUMENT_LENGTH)}... [${value.length - MAX_ARGUMENT_LENGTH} more chars]`
+      : value;
+  }
+
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => redactArguments(item, name)));
+  }
+
+  if (typeof value === "object" && value !== null) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [key, await redactArguments(item, key)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+
+  return value;
+}
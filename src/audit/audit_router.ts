@@ -0,0 +1,160 @@
+/**
+ * Audit log queries
+ *   GET /audit?from=<time>&to=<time>&tool=<name>&user=<caller id>&limit=<n>&cursor=<id>
+ * Times are ISO 8601 dates or timestamps. Entries are listed newest first, and
+ * nextCursor pages to older ones. Callers authenticate like on the MCP endpoint
+ * and only see their own calls. The AUDIT_ADMIN_TOKEN Bearer token sees every
+ * caller and may filter by user. The log is append-only, so there is no way to
+ * change or delete entries through this API
+ */
+import { CallerAuthError, isAdminRequest, resolveCallerId } from "../auth/caller";
+import { Env } from "../types/index.js";
+import { AuditLog, AuditQuery } from "./audit_log";
+import { consoleLogger } from "../utils/log_utils";
+
+export const AUDIT_PATH = "/audit";
+
+// Days covered when the request names no start
+const DEFAULT_RANGE_DAYS = 7;
+
+// Entries per page by default, and the most a request may ask for
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+// Request rejected by the audit API, answered with its status
+class AuditRequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Check whether a request targets the audit API
+ *
+ * @param request - Incoming request
+ * @returns True for /audit
+ */
+export function isAuditRequest(request: Request): boolean {
+  return new URL(request.url).pathname === AUDIT_PATH;
+}
+
+/**
+ * Handle a request to the audit API
+ *
+ * @param request - Incoming request
+ * @param env - Worker environment
+ * @returns JSON list of audit entries
+ */
+export async function handleAuditRequest(request: Request, env: Env): Promise<Response> {
+  if (request.method === "OPTIONS") {
+    return new Response(null, { headers: CORS_HEADERS });
+  }
+  if (request.method !== "GET") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const log = AuditLog.fromEnv(env);
+  if (!log) {
+    return jsonResponse(501, { error: "Audit logging is not configured" });
+  }
+
+  try {
+    const isAdmin = await isAdminRequest(request, env.AUDIT_ADMIN_TOKEN);
+    const callerId = isAdmin ? undefined : await resolveCallerId(request, env);
+    const query = parseQuery(new URL(request.url).searchParams, isAdmin, callerId);
+
+    // Fetch one extra entry to tell whether there is another page
+    const entries = await log.query({ ...query, limit: query.limit + 1 });
+    const page = entries.slice(0, query.limit);
+    const nextCursor = entries.length > query.limit ? String(page[page.length - 1].id) : undefined;
+
+    return jsonResponse(200, {
+      from: new Date(query.from).toISOString(),
+      to: new Date(query.to).toISOString(),
+      entries: page,
+      ...(nextCursor && { nextCursor }),
+    });
+  } catch (error) {
+    if (error instanceof AuditRequestError || error instanceof CallerAuthError) {
+      return jsonResponse(error.status, { error: error.message });
+    }
+    consoleLogger.error("Error handling audit request", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return jsonResponse(500, { error: "Internal error" });
+  }
+}
+
+/**
+ * Read the time range, filters and paging of an audit request
+ *
+ * @param callerId - Caller the entries are restricted to, undefined for admins
+ */
+function parseQuery(params: URLSearchParams, isAdmin: boolean, callerId?: string): AuditQuery {
+  const to = parseTime(params.get("to"), "to") ?? Date.now();
+  const from = parseTime(params.get("from"), "from") ?? to - DEFAULT_RANGE_DAYS * DAY_MS;
+  if (from > to) {
+    throw new AuditRequestError(400, "from must not be after to");
+  }
+
+  const user = params.get("user");
+  if (user && !isAdmin) {
+    throw new AuditRequestError(403, "Only the admin token can read the audit log of other users");
+  }
+
+  return {
+    from,
+    to,
+    callerId: callerId ?? (user || undefined),
+    tool: params.get("tool") || undefined,
+    limit: parseCount(params.get("limit"), "limit", MAX_LIMIT) ?? DEFAULT_LIMIT,
+    before: parseCount(params.get("cursor"), "cursor"),
+  };
+}
+
+/**
+ * Parse an ISO 8601 date or timestamp parameter
+ *
+ * @returns Time in ms since epoch
+ */
+function parseTime(value: string | null, name: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new AuditRequestError(400, `${name} must be an ISO 8601 date or timestamp`);
+  }
+  return time;
+}
+
+/**
+ * Parse a positive integer parameter
+ */
+function parseCount(value: string | null, name: string, max?: number): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const count = Number(value);
+  if (!Number.isSafeInteger(count) || count < 1 || (max !== undefined && count > max)) {
+    throw new AuditRequestError(400, max === undefined
+      ? `${name} must be a positive integer`
+      : `${name} must be an integer between 1 and ${max}`);
+  }
+  return count;
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store", ...CORS_HEADERS },
+  });
+}
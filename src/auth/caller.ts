@@ -0,0 +1,75 @@
+/**
+ * Caller identification for the HTTP APIs next to the MCP endpoint
+ * Callers authenticate the same way as on the MCP endpoint: with an OAuth
+ * access token when OAuth is enabled, otherwise with their credentials, and are
+ * identified by the same caller id. Admin tokens unlock every caller's data
+ */
+import { Env } from "../types/index.js";
+import { getCallerId, sha256Hex } from "../utils/crypto_utils";
+import { InvalidCredentialsError, RequestCredentials } from "./credentials";
+import { authenticateRequest, isOAuthEnabled, OAuthNotConfiguredError, TokenGrant } from "./oauth";
+
+// Caller could not be identified, answered with its status
+export class CallerAuthError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Resolve the caller id of a request the same way the MCP endpoint does
+ *
+ * @param request - Incoming request
+ * @param env - Worker environment
+ * @returns Caller id
+ * @throws CallerAuthError if the request carries no valid credentials or OAuth is not configured
+ */
+export async function resolveCallerId(request: Request, env: Env): Promise<string> {
+  let userId: string | undefined;
+  if (isOAuthEnabled(env)) {
+    let grant: TokenGrant | undefined;
+    try {
+      grant = await authenticateRequest(request, env);
+    } catch (error) {
+      if (error instanceof OAuthNotConfiguredError) {
+        throw new CallerAuthError(501, error.message);
+      }
+      throw error;
+    }
+    if (!grant) {
+      throw new CallerAuthError(401, "A valid OAuth access token is required");
+    }
+    userId = grant.userId;
+  }
+
+  let credentials: RequestCredentials;
+  try {
+    credentials = await RequestCredentials.fromRequest(request, env, userId);
+  } catch (error) {
+    if (error instanceof InvalidCredentialsError) {
+      throw new CallerAuthError(error.status, error.message);
+    }
+    throw error;
+  }
+
+  const callerId = await getCallerId(credentials.identity());
+  if (!callerId) {
+    throw new CallerAuthError(401, "Credentials are required");
+  }
+  return callerId;
+}
+
+/**
+ * Check whether the request carries an admin token as Bearer token
+ *
+ * @param request - Incoming request
+ * @param adminToken - Configured admin token, undefined disables admin access
+ * @returns True if the Bearer token is the admin token
+ */
+export async function isAdminRequest(request: Request, adminToken?: string): Promise<boolean> {
+  const authHeader = request.headers.get("Authorization");
+  const token = authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : "";
+  // Compare hashes so the comparison time does not depend on the token
+  return !!adminToken && !!token && await sha256Hex(token) === await sha256Hex(adminToken);
+}
@@ -0,0 +1,163 @@
+/**
+ * Per-integration credentials
+ * A request can carry a secret for every enabled integration, so one session
+ * can use Gmail, Tavily and S3 at once. Secrets are looked up in this order:
+ *   1. X-Credential-<integration> headers, e.g. X-Credential-Tavily
+ *   2. X-Credentials, a JSON object keyed by integration, sent as JSON or base64
+ *   3. The Authorization Bearer token, shared by every integration without its own secret
+ * A Bearer token issued by the credential vault (see vault.ts) is not a secret
+ * itself; it is replaced by the secrets stored in the vault. With OAuth enabled
+ * (see oauth.ts) the Bearer token is an access token: it is never used as a
+ * secret, and the vault of the authenticated user takes its place
+ */
+import { CredentialStore, Env } from "../types/index.js";
+import { AuthError } from "../utils/error_utils";
+import { fromBase64Url } from "../utils/crypto_utils";
+import { CredentialVault, isVaultToken } from "./vault";
+
+export const CREDENTIALS_HEADER = "X-Credentials";
+export const CREDENTIAL_HEADER_PREFIX = "X-Credential-";
+
+// X-Credentials could not be decoded (400) or the vault token is not valid (401)
+export class InvalidCredentialsError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class RequestCredentials implements CredentialStore {
+  constructor(
+    // Secrets keyed by lowercase integration prefix
+    private readonly secrets: Record<string, string>,
+    // Bearer token used for integrations without their own secret
+    private readonly fallback = "",
+    // Owner of the vault the secrets came from
+    private readonly vaultOwner?: string
+  ) {}
+
+  /**
+   * Resolve the credentials sent with a request
+   *
+   * @param request - Incoming HTTP request
+   * @param env - Worker environment holding the credential vault
+   * @param userId - Vault owner the OAuth access token was issued to, when OAuth is enabled
+   * @returns Credentials of the request
+   * @throws InvalidCredentialsError if X-Credentials is malformed or the vault token is not valid
+   */
+  static async fromRequest(request: Request, env: Env, userId?: string): Promise<RequestCredentials> {
+    const secrets = parseCredentialsHeader(request.headers.get(CREDENTIALS_HEADER));
+
+    // Per-integration headers win over the map
+    const prefix = CREDENTIAL_HEADER_PREFIX.toLowerCase();
+    request.headers.forEach((value, name) => {
+      if (name.startsWith(prefix) && value) {
+        secrets[name.substring(prefix.length)] = value;
+      }
+    });
+
+    if (userId) {
+      // The access token authenticated the user, it must never reach an upstream API
+      const vault = await CredentialVault.fromEnv(env);
+      const entry = vault ? await vault.resolveOwner(userId) : undefined;
+      return new RequestCredentials({ ...entry?.secrets, ...secrets }, "", userId);
+    }
+
+    const authHeader = request.headers.get("Authorization");
+    const token = authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : "";
+
+    if (isVaultToken(token)) {
+      const vault = await CredentialVault.fromEnv(env);
+      if (!vault) {
+        throw new InvalidCredentialsError("Vault tokens are not accepted, the credential vault is not configured", 401);
+      }
+      const entry = await vault.resolve(token);
+      if (!entry) {
+        throw new InvalidCredentialsError("Unknown or revoked vault token", 401);
+      }
+      // Secrets sent with the request win over the stored ones
+      return new RequestCredentials({ ...entry.secrets, ...secrets }, "", entry.ownerId);
+    }
+
+    return new RequestCredentials(secrets, token);
+  }
+
+  get(integration: string): string | undefined {
+    return this.secrets[integration.toLowerCase()] || this.fallback || undefined;
+  }
+
+  require(integration: string): string {
+    const secret = this.get(integration);
+    if (!secret) {
+      // Signed-in users cannot fall back to the Bearer token
+      const alternative = this.vaultOwner ? "" : ", or as the Authorization Bearer token";
+      throw new AuthError(
+        `No credentials for the ${integration} integration. Send them in the ` +
+        `${credentialHeaderName(integration)} header, under "${integration}" in ${CREDENTIALS_HEADER} ` +
+        `or the credential vault${alternative}`
+      );
+    }
+    return secret;
+  }
+
+  /**
+   * Stable string identifying the caller, used to derive the caller id
+   * A vault owner keeps the same id across token rotations, otherwise the Bearer
+   * token identifies the caller when present, and the set of secrets when not
+   */
+  identity(): string {
+    if (this.vaultOwner) {
+      return `vault:${this.vaultOwner}`;
+    }
+    if (this.fallback) {
+      return this.fallback;
+    }
+    const entries = Object.entries(this.secrets).sort(([a], [b]) => a.localeCompare(b));
+    return entries.length ? JSON.stringify(entries) : "";
+  }
+}
+
+/**
+ * Name of the header carrying the secret of one integration
+ *
+ * @param integration - Integration prefix, e.g. google-gmail
+ * @returns Header name, e.g. X-Credential-Google-Gmail
+ */
+export function credentialHeaderName(integration: string): string {
+  const suffix = integration
+    .split("-")
+    .map(part => part.charAt(0).toUpperCase() + part.substring(1))
+    .join("-");
+  return `${CREDENTIAL_HEADER_PREFIX}${suffix}`;
+}
+
+/**
+ * Decode the X-Credentials header
+ * Accepts a JSON object, or the same object encoded as base64 or base64url
+ */
+function parseCredentialsHeader(value: string | null): Record<string, string> {
+  if (!value) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    const json = value.trim().startsWith("{") ? value : new TextDecoder().decode(fromBase64Url(value.trim()));
+    parsed = JSON.parse(json);
+  } catch {
+    throw new InvalidCredentialsError(`${CREDENTIALS_HEADER} must be a JSON object, optionally base64 encoded`);
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new InvalidCredentialsError(`${CREDENTIALS_HEADER} must be a JSON object keyed by integration`);
+  }
+
+  const secrets: Record<string, string> = {};
+  for (const [integration, secret] of Object.entries(parsed)) {
+    if (typeof secret !== "string") {
+      throw new InvalidCredentialsError(`${CREDENTIALS_HEADER} value for ${integration} must be a string`);
+    }
+    secrets[integration.toLowerCase()] = secret;
+  }
+  return secrets;
+}
@@ -0,0 +1,262 @@
+/**
+ * OAuth 2.1 authorization for the MCP endpoint, following the MCP authorization spec
+ * This worker is both the protected resource and its authorization server. It
+ * supports dynamic client registration for public clients, the authorization
+ * code flow with PKCE (S256), and rotating refresh tokens. Users sign in on the
+ * consent page with their vault token, so issued tokens belong to the vault owner
+ * and tools use the secrets stored in the vault, never the access token itself
+ *
+ * KV layout (OAUTH_KV), tokens and codes are only stored as SHA-256 hashes:
+ *   oauth:client:<client id>     -> OAuthClient
+ *   oauth:code:<hash>            -> AuthorizationCode, expires with the code
+ *   oauth:access:<hash>          -> TokenGrant, expires with the token
+ *   oauth:refresh:<hash>         -> TokenGrant, expires with the token
+ */
+import { Env } from "../types/index.js";
+import { randomToken, sha256Hex } from "../utils/crypto_utils";
+
+export const ACCESS_TOKEN_PREFIX = "ya_";
+export const REFRESH_TOKEN_PREFIX = "yr_";
+
+// The only scope, granting use of the MCP endpoint
+export const OAUTH_SCOPE = "mcp";
+
+export const PROTECTED_RESOURCE_METADATA_PATH = "/.well-known/oauth-protected-resource";
+export const AUTHORIZATION_SERVER_METADATA_PATH = "/.well-known/oauth-authorization-server";
+
+const AUTHORIZATION_CODE_TTL_SECONDS = 10 * 60;
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Client registered through dynamic client registration
+export interface OAuthClient {
+  clientId: string;
+  clientName?: string;
+  redirectUris: string[];
+  createdAt: number;
+}
+
+// What an authorization code, access token or refresh token grants
+export interface TokenGrant {
+  clientId: string;
+  // Owner id of the credential vault the user signed in with
+  userId: string;
+  scope: string;
+  // Resource indicator (RFC 8707) the token is restricted to, if the client sent one
+  resource?: string;
+}
+
+interface AuthorizationCode extends TokenGrant {
+  redirectUri: string;
+  codeChallenge: string;
+  expiresAt: number;
+}
+
+// Token endpoint response
+export interface IssuedTokens {
+  access_token: string;
+  token_type: "Bearer";
+  expires_in: number;
+  refresh_token: string;
+  scope: string;
+}
+
+export class OAuthStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  /**
+   * Open the store configured in the environment
+   *
+   * @param env - Worker environment
+   * @returns The store, or undefined if OAUTH_KV is not bound
+   */
+  static fromEnv(env: Env): OAuthStore | undefined {
+    return env.OAUTH_KV ? new OAuthStore(env.OAUTH_KV) : undefined;
+  }
+
+  /**
+   * Register a public client
+   *
+   * @param redirectUris - Redirect URIs the client may use
+   * @param clientName - Name shown on the consent page
+   * @returns The registered client
+   */
+  async registerClient(redirectUris: string[], clientName?: string): Promise<OAuthClient> {
+    const client: OAuthClient = {
+      clientId: crypto.randomUUID(),
+      ...(clientName && { clientName }),
+      redirectUris,
+      createdAt: Date.now(),
+    };
+    await this.kv.put(`oauth:client:${client.clientId}`, JSON.stringify(client));
+    return client;
+  }
+
+  async getClient(clientId: string): Promise<OAuthClient | null> {
+    return this.kv.get<OAuthClient>(`oauth:client:${clientId}`, "json");
+  }
+
+  /**
+   * Issue an authorization code
+   *
+   * @param grant - What the code grants, with the redirect URI and PKCE challenge it is bound to
+   * @returns The code
+   */
+  async createCode(grant: Omit<AuthorizationCode, "expiresAt">): Promise<string> {
+    const code = randomToken();
+    const record: AuthorizationCode = { ...grant, expiresAt: Date.now() + AUTHORIZATION_CODE_TTL_SECONDS * 1000 };
+    await this.kv.put(await codeKey(code), JSON.stringify(record), { expirationTtl: AUTHORIZATION_CODE_TTL_SECONDS });
+    return code;
+  }
+
+  /**
+   * Redeem an authorization code, which can only be used once
+   *
+   * @param code - Authorization code
+   * @returns What the code grants, or undefined if it is unknown, used or expired
+   */
+  async consumeCode(code: string): Promise<AuthorizationCode | undefined> {
+    const key = await codeKey(code);
+    const record = await this.kv.get<AuthorizationCode>(key, "json");
+    if (!record) {
+      return undefined;
+    }
+    await this.kv.delete(key);
+    return record.expiresAt > Date.now() ? record : undefined;
+  }
+
+  /**
+   * Issue an access token and a refresh token
+   *
+   * @param grant - What the tokens grant
+   * @returns Token endpoint response
+   */
+  async issueTokens(grant: TokenGrant): Promise<IssuedTokens> {
+    const { clientId, userId, scope, resource } = grant;
+    const record: TokenGrant = { clientId, userId, scope, ...(resource && { resource }) };
+    const accessToken = `${ACCESS_TOKEN_PREFIX}${randomToken()}`;
+    const refreshToken = `${REFRESH_TOKEN_PREFIX}${randomToken()}`;
+
+    await this.kv.put(await accessKey(accessToken), JSON.stringify(record), { expirationTtl: ACCESS_TOKEN_TTL_SECONDS });
+    await this.kv.put(await refreshKey(refreshToken), JSON.stringify(record), { expirationTtl: REFRESH_TOKEN_TTL_SECONDS });
+
+    return {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      refresh_token: refreshToken,
+      scope,
+    };
+  }
+
+  /**
+   * Look up what an access token grants
+   *
+   * @param token - Access token
+   * @returns The grant, or undefined if the token is unknown or expired
+   */
+  async verifyAccessToken(token: string): Promise<TokenGrant | undefined> {
+    if (!token.startsWith(ACCESS_TOKEN_PREFIX)) {
+      return undefined;
+    }
+    return await this.kv.get<TokenGrant>(await accessKey(token), "json") ?? undefined;
+  }
+
+  /**
+   * Exchange a refresh token for new tokens
+   * The refresh token is rotated: the old one stops working once used
+   *
+   * @param refreshToken - Refresh token
+   * @param clientId - Client presenting the token
+   * @returns New tokens, or undefined if the token is unknown, expired or belongs to another client
+   */
+  async refresh(refreshToken: string, clientId: string): Promise<IssuedTokens | undefined> {
+    const key = await refreshKey(refreshToken);
+    const grant = await this.kv.get<TokenGrant>(key, "json");
+    if (!grant || grant.clientId !== clientId) {
+      return undefined;
+    }
+    await this.kv.delete(key);
+    return this.issueTokens(grant);
+  }
+}
+
+// OAuth is enabled but the OAUTH_KV namespace holding its tokens is not bound
+export class OAuthNotConfiguredError extends Error {
+  constructor() {
+    super("OAUTH_ENABLED is set but the OAUTH_KV namespace is not bound");
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Check whether the MCP endpoint requires OAuth access tokens
+ *
+ * @param env - Worker environment
+ * @returns True if OAUTH_ENABLED is "true"
+ */
+export function isOAuthEnabled(env: Env): boolean {
+  return env.OAUTH_ENABLED === "true";
+}
+
+/**
+ * Authenticate a request to the MCP endpoint
+ *
+ * @param request - Incoming request
+ * @param env - Worker environment
+ * @returns What the access token grants, or undefined if it is missing or not valid
+ * @throws OAuthNotConfiguredError if OAUTH_KV is not bound
+ */
+export async function authenticateRequest(request: Request, env: Env): Promise<TokenGrant | undefined> {
+  const store = OAuthStore.fromEnv(env);
+  if (!store) {
+    throw new OAuthNotConfiguredError();
+  }
+
+  const authHeader = request.headers.get("Authorization");
+  const token = authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : "";
+  const grant = token ? await store.verifyAccessToken(token) : undefined;
+
+  // Tokens restricted to another resource are not valid here
+  if (grant?.resource && new URL(grant.resource).origin !== getIssuer(request)) {
+    return undefined;
+  }
+  return grant;
+}
+
+/**
+ * Build the WWW-Authenticate header of a 401 from the MCP endpoint
+ * It points clients to the protected resource metadata to discover the authorization server
+ *
+ * @param request - Rejected request
+ * @returns Header value
+ */
+export function wwwAuthenticate(request: Request): string {
+  const metadataUrl = `${getIssuer(request)}${PROTECTED_RESOURCE_METADATA_PATH}`;
+  const error = request.headers.get("Authorization")
+    ? `, error="invalid_token", error_description="The access token is missing, expired or revoked"`
+    : "";
+  return `Bearer realm="y-server", resource_metadata="${metadataUrl}"${error}`;
+}
+
+/**
+ * Issuer identifier of the authorization server, the origin of the worker
+ *
+ * @param request - Any request to the worker
+ * @returns Origin URL without trailing slash
+ */
+export function getIssuer(request: Request): string {
+  return new URL(request.url).origin;
+}
+
+async function codeKey(code: string): Promise<string> {
+  return `oauth:code:${await sha256Hex(code)}`;
+}
+
+async function accessKey(token: string): Promise<string> {
+  return `oauth:access:${await sha256Hex(token)}`;
+}
+
+async function refreshKey(token: string): Promise<string> {
+  return `oauth:refresh:${await sha256Hex(token)}`;
+}
@@ -0,0 +1,483 @@
+/**
+ * OAuth 2.1 endpoints of the authorization server, see oauth.ts
+ *   GET  /.well-known/oauth-protected-resource      protected resource metadata (RFC 9728)
+ *   GET  /.well-known/oauth-authorization-server    authorization server metadata (RFC 8414)
+ *   POST /register                                  dynamic client registration (RFC 7591)
+ *   GET  /authorize                                 consent page
+ *   POST /authorize                                 approve or deny, redirects back to the client
+ *   POST /token                                     authorization code and refresh token grants
+ * The routes only exist when OAUTH_ENABLED is "true"
+ */
+import { Env } from "../types/index.js";
+import { sha256Base64Url } from "../utils/crypto_utils";
+import {
+  AUTHORIZATION_SERVER_METADATA_PATH,
+  getIssuer,
+  OAUTH_SCOPE,
+  OAuthClient,
+  OAuthStore,
+  PROTECTED_RESOURCE_METADATA_PATH,
+} from "./oauth";
+import { CredentialVault } from "./vault";
+import { consoleLogger } from "../utils/log_utils";
+
+const REGISTER_PATH = "/register";
+const AUTHORIZE_PATH = "/authorize";
+const TOKEN_PATH = "/token";
+
+// Most redirect URIs and longest client name accepted at registration
+const MAX_REDIRECT_URIS = 10;
+const MAX_CLIENT_NAME_LENGTH = 100;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, MCP-Protocol-Version",
+};
+
+// The consent page must not be framed, to prevent clickjacking
+const PAGE_HEADERS = {
+  "Content-Type": "text/html; charset=utf-8",
+  "Cache-Control": "no-store",
+  "X-Frame-Options": "DENY",
+  "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors 'none'",
+};
+
+// Request rejected with an OAuth error response (RFC 6749 section 5.2)
+class OAuthRequestError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+// Parameters of an authorization request, carried from the consent page to its form
+interface AuthorizationRequest {
+  client: OAuthClient;
+  redirectUri: string;
+  state?: string;
+  codeChallenge: string;
+  scope: string;
+  resource?: string;
+}
+
+/**
+ * Check whether a request targets the OAuth endpoints
+ *
+ * @param request - Incoming request
+ * @returns True for the metadata documents, /register, /authorize and /token
+ */
+export function isOAuthRequest(request: Request): boolean {
+  const { pathname } = new URL(request.url);
+  return [PROTECTED_RESOURCE_METADATA_PATH, AUTHORIZATION_SERVER_METADATA_PATH]
+    .some(path => pathname === path || pathname.startsWith(`${path}/`))
+    || [REGISTER_PATH, AUTHORIZE_PATH, TOKEN_PATH].includes(pathname);
+}
+
+/**
+ * Handle a request to the OAuth endpoints
+ *
+ * @param request - Incoming request
+ * @param env - Worker environment
+ * @returns JSON response, the consent page or a redirect to the client
+ */
+export async function handleOAuthRequest(request: Request, env: Env): Promise<Response> {
+  if (request.method === "OPTIONS") {
+    return new Response(null, { headers: CORS_HEADERS });
+  }
+
+  const store = OAuthStore.fromEnv(env);
+  if (!store) {
+    return jsonResponse(501, { error: "server_error", error_description: "OAUTH_KV is not bound" });
+  }
+
+  const { pathname } = new URL(request.url);
+  try {
+    if (request.method === "GET" && pathname.startsWith(PROTECTED_RESOURCE_METADATA_PATH)) {
+      return jsonResponse(200, protectedResourceMetadata(request));
+    }
+    if (request.method === "GET" && pathname.startsWith(AUTHORIZATION_SERVER_METADATA_PATH)) {
+      return jsonResponse(200, authorizationServerMetadata(request));
+    }
+    if (request.method === "POST" && pathname === REGISTER_PATH) {
+      return await registerClient(request, store);
+    }
+    if (request.method === "GET" && pathname === AUTHORIZE_PATH) {
+      return await showConsentPage(request, store);
+    }
+    if (request.method === "POST" && pathname === AUTHORIZE_PATH) {
+      return await submitConsent(request, env, store);
+    }
+    if (request.method === "POST" && pathname === TOKEN_PATH) {
+      return await exchangeToken(request, store);
+    }
+    return new Response("Method Not Allowed", { status: 405, headers: CORS_HEADERS });
+  } catch (error) {
+    if (error instanceof OAuthRequestError) {
+      return jsonResponse(error.status, { error: error.code, error_description: error.message });
+    }
+    consoleLogger.error("Error handling OAuth request", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return jsonResponse(500, { error: "server_error", error_description: "Internal error" });
+  }
+}
+
+function protectedResourceMetadata(request: Request): Record<string, unknown> {
+  const issuer = getIssuer(request);
+  return {
+    resource: issuer,
+    authorization_servers: [issuer],
+    bearer_methods_supported: ["header"],
+    scopes_supported: [OAUTH_SCOPE],
+    resource_name: "y-server",
+  };
+}
+
+function authorizationServerMetadata(request: Request): Record<string, unknown> {
+  const issuer = getIssuer(request);
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}${AUTHORIZE_PATH}`,
+    token_endpoint: `${issuer}${TOKEN_PATH}`,
+    registration_endpoint: `${issuer}${REGISTER_PATH}`,
+    scopes_supported: [OAUTH_SCOPE],
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code", "refresh_token"],
+    token_endpoint_auth_methods_supported: ["none"],
+    code_challenge_methods_supported: ["S256"],
+  };
+}
+
+/**
+ * Register a public client from RFC 7591 client metadata
+ */
+async function registerClient(request: Request, store: OAuthStore): Promise<Response> {
+  let metadata: { redirect_uris?: unknown; client_name?: unknown; token_endpoint_auth_method?: unknown };
+  try {
+    metadata = await request.json();
+  } catch {
+    throw new OAuthRequestError(400, "invalid_client_metadata", "Body must be JSON client metadata");
+  }
+
+  const redirectUris = metadata?.redirect_uris;
+  if (
+    !Array.isArray(redirectUris) || redirectUris.length === 0 || redirectUris.length > MAX_REDIRECT_URIS
+    || !redirectUris.every(uri => typeof uri === "string" && isValidRedirectUri(uri))
+  ) {
+    throw new OAuthRequestError(
+      400,
+      "invalid_redirect_uri",
+      "redirect_uris must list 1 to 10 https, loopback http or private-use scheme URIs without fragment"
+    );
+  }
+  if (metadata.token_endpoint_auth_method !== undefined && metadata.token_endpoint_auth_method !== "none") {
+    throw new OAuthRequestError(400, "invalid_client_metadata", "Only public clients (token_endpoint_auth_method none) are supported");
+  }
+
+  const clientName = typeof metadata.client_name === "string"
+    ? metadata.client_name.trim().substring(0, MAX_CLIENT_NAME_LENGTH)
+    : undefined;
+  const client = await store.registerClient(redirectUris as string[], clientName || undefined);
+
+  return jsonResponse(201, {
+    client_id: client.clientId,
+    client_id_issued_at: Math.floor(client.createdAt / 1000),
+    redirect_uris: client.redirectUris,
+    ...(client.clientName && { client_name: client.clientName }),
+    grant_types: ["authorization_code", "refresh_token"],
+    response_types: ["code"],
+    token_endpoint_auth_method: "none",
+  });
+}
+
+/**
+ * Render the consent page for an authorization request
+ * Errors before the redirect URI is verified are shown on the page, never redirected
+ */
+async function showConsentPage(request: Request, store: OAuthStore): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const client = await findClient(store, params);
+  if (!client) {
+    return pageResponse(400, errorPage("Unknown client or redirect URI"));
+  }
+
+  const redirectUri = params.get("redirect_uri")!;
+  const state = params.get("state") ?? undefined;
+  try {
+    return pageResponse(200, consentPage(parseAuthorizationRequest(params, client, request)));
+  } catch (error) {
+    if (error instanceof OAuthRequestError) {
+      return redirectWithError(redirectUri, state, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Handle the consent form: issue a code for the vault owner, or report the denial
+ */
+async function submitConsent(request: Request, env: Env, store: OAuthStore): Promise<Response> {
+  const form = new URLSearchParams(await request.text());
+  const client = await findClient(store, form);
+  if (!client) {
+    return pageResponse(400, errorPage("Unknown client or redirect URI"));
+  }
+
+  const redirectUri = form.get("redirect_uri")!;
+  const state = form.get("state") ?? undefined;
+  let authorization: AuthorizationRequest;
+  try {
+    authorization = parseAuthorizationRequest(form, client, request);
+  } catch (error) {
+    if (error instanceof OAuthRequestError) {
+      return redirectWithError(redirectUri, state, error);
+    }
+    throw error;
+  }
+
+  if (form.get("action") !== "approve") {
+    return redirectWithError(redirectUri, state, new OAuthRequestError(400, "access_denied", "The user denied access"));
+  }
+
+  const vault = await CredentialVault.fromEnv(env);
+  const entry = vault ? await vault.resolve(form.get("vault_token")?.trim() ?? "") : undefined;
+  if (!entry) {
+    const message = vault ? "Unknown or revoked vault token" : "The credential vault is not configured";
+    return pageResponse(401, consentPage(authorization, message));
+  }
+
+  const code = await store.createCode({
+    clientId: client.clientId,
+    userId: entry.ownerId,
+    scope: authorization.scope,
+    ...(authorization.resource && { resource: authorization.resource }),
+    redirectUri,
+    codeChallenge: authorization.codeChallenge,
+  });
+
+  const location = new URL(redirectUri);
+  location.searchParams.set("code", code);
+  if (state) {
+    location.searchParams.set("state", state);
+  }
+  return redirectResponse(location.toString());
+}
+
+/**
+ * Token endpoint, taking form-encoded parameters
+ */
+async function exchangeToken(request: Request, store: OAuthStore): Promise<Response> {
+  const form = new URLSearchParams(await request.text());
+  const clientId = form.get("client_id") ?? "";
+  if (!clientId || !await store.getClient(clientId)) {
+    throw new OAuthRequestError(401, "invalid_client", "Unknown client_id");
+  }
+
+  const grantType = form.get("grant_type");
+  if (grantType === "authorization_code") {
+    const code = await store.consumeCode(form.get("code") ?? "");
+    if (!code || code.clientId !== clientId) {
+      throw new OAuthRequestError(400, "invalid_grant", "Unknown, used or expired authorization code");
+    }
+    if (code.redirectUri !== form.get("redirect_uri")) {
+      throw new OAuthRequestError(400, "invalid_grant", "redirect_uri does not match the authorization request");
+    }
+    if (await sha256Base64Url(form.get("code_verifier") ?? "") !== code.codeChallenge) {
+      throw new OAuthRequestError(400, "invalid_grant", "code_verifier does not match the code challenge");
+    }
+    const resource = form.get("resource");
+    if (resource && resource !== code.resource) {
+      throw new OAuthRequestError(400, "invalid_target", "resource does not match the authorization request");
+    }
+    return tokenResponse(await store.issueTokens(code));
+  }
+
+  if (grantType === "refresh_token") {
+    const tokens = await store.refresh(form.get("refresh_token") ?? "", clientId);
+    if (!tokens) {
+      throw new OAuthRequestError(400, "invalid_grant", "Unknown, used or expired refresh token");
+    }
+    return tokenResponse(tokens);
+  }
+
+  throw new OAuthRequestError(400, "unsupported_grant_type", "grant_type must be authorization_code or refresh_token");
+}
+
+/**
+ * Look up the client of an authorization request and check its redirect URI
+ *
+ * @returns The client, or undefined if the client is unknown or the redirect URI is not registered
+ */
+async function findClient(store: OAuthStore, params: URLSearchParams): Promise<OAuthClient | undefined> {
+  const clientId = params.get("client_id");
+  const redirectUri = params.get("redirect_uri");
+  const client = clientId ? await store.getClient(clientId) : null;
+  return client && redirectUri && client.redirectUris.includes(redirectUri) ? client : undefined;
+}
+
+/**
+ * Validate an authorization request of a known client
+ *
+ * @throws OAuthRequestError to be redirected back to the client
+ */
+function parseAuthorizationRequest(params: URLSearchParams, client: OAuthClient, request: Request): AuthorizationRequest {
+  if (params.get("response_type") !== "code") {
+    throw new OAuthRequestError(400, "unsupported_response_type", "response_type must be code");
+  }
+
+  const codeChallenge = params.get("code_challenge");
+  if (!codeChallenge || params.get("code_challenge_method") !== "S256") {
+    throw new OAuthRequestError(400, "invalid_request", "PKCE with code_challenge_method S256 is required");
+  }
+
+  const requestedScope = params.get("scope")?.trim();
+  if (requestedScope && requestedScope.split(/\s+/).some(scope => scope !== OAUTH_SCOPE)) {
+    throw new OAuthRequestError(400, "invalid_scope", `The only supported scope is ${OAUTH_SCOPE}`);
+  }
+
+  const resource = params.get("resource") ?? undefined;
+  if (resource && !isResourceOf(resource, request)) {
+    throw new OAuthRequestError(400, "invalid_target", "resource must be a URL of this server");
+  }
+
+  return {
+    client,
+    redirectUri: params.get("redirect_uri")!,
+    state: params.get("state") ?? undefined,
+    codeChallenge,
+    scope: OAUTH_SCOPE,
+    resource,
+  };
+}
+
+/**
+ * Accept https URIs, http URIs on a loopback address and private-use schemes
+ * (e.g. com.example.app:/callback), rejecting schemes that run code in the browser
+ */
+function isValidRedirectUri(uri: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return false;
+  }
+  if (url.hash) {
+    return false;
+  }
+  if (url.protocol === "https:") {
+    return true;
+  }
+  if (url.protocol === "http:") {
+    return ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+  }
+  return !["javascript:", "data:", "vbscript:", "file:", "blob:", "about:"].includes(url.protocol);
+}
+
+function isResourceOf(resource: string, request: Request): boolean {
+  try {
+    return new URL(resource).origin === getIssuer(request);
+  } catch {
+    return false;
+  }
+}
+
+function consentPage(authorization: AuthorizationRequest, error?: string): string {
+  const { client, redirectUri, state, codeChallenge, scope, resource } = authorization;
+  const clientName = escapeHtml(client.clientName ?? "An application");
+  // Private-use scheme URIs have no origin, show them whole
+  const { origin } = new URL(redirectUri);
+  const destination = origin === "null" ? redirectUri : origin;
+  const hidden = {
+    response_type: "code",
+    client_id: client.clientId,
+    redirect_uri: redirectUri,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+    scope,
+    ...(state !== undefined && { state }),
+    ...(resource && { resource }),
+  };
+
+  return page(`Authorize ${clientName}`, `
+    <h1>Authorize ${clientName}</h1>
+    <p>${clientName} wants to use the tools of this server on your behalf, with the credentials stored in your credential vault.</p>
+    <p class="muted">You will be sent back to ${escapeHtml(destination)}</p>
+    ${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+    <form method="post" action="${AUTHORIZE_PATH}">
+      ${Object.entries(hidden).map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`).join("\n      ")}
+      <label for="vault_token">Vault token</label>
+      <input id="vault_token" type="password" name="vault_token" autocomplete="off" placeholder="yv_...">
+      <p class="muted">Create a vault by sending your credentials to POST /credentials.</p>
+      <button type="submit" name="action" value="approve">Approve</button>
+      <button type="submit" name="action" value="deny" class="secondary">Deny</button>
+    </form>`);
+}
+
+function errorPage(message: string): string {
+  return page("Authorization error", `
+    <h1>Authorization error</h1>
+    <p class="error">${escapeHtml(message)}</p>`);
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 32rem; margin: 3rem auto; padding: 0 1rem; color: #222; }
+    label, input, button { display: block; width: 100%; box-sizing: border-box; }
+    input { margin: 0.5rem 0; padding: 0.5rem; }
+    button { margin-top: 0.75rem; padding: 0.6rem; cursor: pointer; }
+    .secondary { background: none; border: 1px solid #999; }
+    .muted { color: #666; font-size: 0.9rem; }
+    .error { color: #b00020; }
+  </style>
+</head>
+<body>${body}
+</body>
+</html>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function redirectWithError(redirectUri: string, state: string | undefined, error: OAuthRequestError): Response {
+  const location = new URL(redirectUri);
+  location.searchParams.set("error", error.code);
+  location.searchParams.set("error_description", error.message);
+  if (state) {
+    location.searchParams.set("state", state);
+  }
+  return redirectResponse(location.toString());
+}
+
+function redirectResponse(location: string): Response {
+  return new Response(null, { status: 302, headers: { Location: location, "Cache-Control": "no-store" } });
+}
+
+function pageResponse(status: number, html: string): Response {
+  return new Response(html, { status, headers: PAGE_HEADERS });
+}
+
+function tokenResponse(tokens: unknown): Response {
+  return new Response(JSON.stringify(tokens), {
+    status: 200,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store", Pragma: "no-cache", ...CORS_HEADERS },
+  });
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store", ...CORS_HEADERS },
+  });
+}
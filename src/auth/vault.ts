@@ -0,0 +1,321 @@
+/**
+ * Encrypted credential vault
+ * Users store their integration secrets once and receive an opaque vault token
+ * to send as the Bearer token instead of the secrets themselves. Each vault is
+ * one KV record encrypted with AES-GCM under VAULT_ENCRYPTION_KEY and bound to
+ * its owner id. Tokens are only stored as SHA-256 hashes
+ *
+ * KV layout:
+ *   vault:token:<sha256 of token> -> owner id
+ *   vault:owner:<owner id>        -> VaultRecord
+ */
+import { Env } from "../types/index.js";
+import {
+  decryptText,
+  EncryptedText,
+  encryptText,
+  importAesKey,
+  randomToken,
+  sha256Hex,
+} from "../utils/crypto_utils";
+
+// Prefix telling vault tokens apart from raw secrets sent as Bearer token
+export const VAULT_TOKEN_PREFIX = "yv_";
+
+// Longest secret accepted for one integration (Bilibili cookies can be long)
+export const MAX_SECRET_LENGTH = 16 * 1024;
+
+interface VaultRecord {
+  // Hash of the current token, so rotation can revoke it
+  tokenHash: string;
+  // Id of the key the secrets are encrypted with, see loadKey
+  keyId: string;
+  secrets: EncryptedText;
+  // Last change of every configured integration, in ms since epoch
+  integrations: Record<string, number>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What the vault API reveals about a vault, never including secrets
+export interface VaultSummary {
+  integrations: Array<{ name: string; updatedAt: string }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Secrets of a vault, resolved for a request
+export interface VaultEntry {
+  ownerId: string;
+  secrets: Record<string, string>;
+}
+
+// Decrypted vault with its stored record
+interface OpenedVault {
+  ownerId: string;
+  record: VaultRecord;
+  secrets: Record<string, string>;
+}
+
+// AES key with its id, ids let records name the key they were encrypted with
+interface VaultKey {
+  id: string;
+  key: CryptoKey;
+}
+
+export class CredentialVault {
+  constructor(
+    private readonly kv: KVNamespace,
+    private readonly currentKey: VaultKey,
+    private readonly previousKey?: VaultKey
+  ) {}
+
+  /**
+   * Open the vault configured in the environment
+   *
+   * @param env - Worker environment
+   * @returns The vault, or undefined if CREDENTIAL_VAULT or VAULT_ENCRYPTION_KEY is missing
+   */
+  static async fromEnv(env: Env): Promise<CredentialVault | undefined> {
+    if (!env.CREDENTIAL_VAULT || !env.VAULT_ENCRYPTION_KEY) {
+      return undefined;
+    }
+    return new CredentialVault(
+      env.CREDENTIAL_VAULT,
+      await loadKey(env.VAULT_ENCRYPTION_KEY),
+      env.VAULT_PREVIOUS_ENCRYPTION_KEY ? await loadKey(env.VAULT_PREVIOUS_ENCRYPTION_KEY) : undefined
+    );
+  }
+
+  /**
+   * Create a vault holding the given secrets
+   *
+   * @param secrets - Secrets keyed by integration
+   * @returns Token of the new vault and its summary
+   */
+  async create(secrets: Record<string, string>): Promise<{ token: string; summary: VaultSummary }> {
+    const ownerId = crypto.randomUUID();
+    const token = `${VAULT_TOKEN_PREFIX}${randomToken()}`;
+    const now = Date.now();
+
+    const record = await this.seal(ownerId, await sha256Hex(token), secrets, {
+      integrations: Object.fromEntries(Object.keys(secrets).map(name => [name, now])),
+      createdAt: now,
+    });
+    await this.kv.put(ownerKey(ownerId), JSON.stringify(record));
+    await this.kv.put(tokenKey(record.tokenHash), ownerId);
+
+    return { token, summary: summarize(record) };
+  }
+
+  /**
+   * Resolve a vault token to its secrets
+   * Records encrypted with the previous key are re-encrypted with the current one
+   *
+   * @param token - Vault token
+   * @returns Owner id and secrets, or undefined for unknown or revoked tokens
+   */
+  async resolve(token: string): Promise<VaultEntry | undefined> {
+    const ownerId = await this.findOwner(token);
+    return ownerId ? this.resolveOwner(ownerId) : undefined;
+  }
+
+  /**
+   * Resolve the secrets of a vault by its owner, for callers authenticated by OAuth
+   *
+   * @param ownerId - Owner id of the vault
+   * @returns Owner id and secrets, or undefined if the vault no longer exists
+   */
+  async resolveOwner(ownerId: string): Promise<VaultEntry | undefined> {
+    const opened = await this.openOwner(ownerId);
+    if (!opened) {
+      return undefined;
+    }
+    if (opened.record.keyId !== this.currentKey.id) {
+      await this.save(ownerId, opened.record, opened.secrets, opened.record.integrations);
+    }
+    return { ownerId, secrets: opened.secrets };
+  }
+
+  /**
+   * Describe a vault without revealing its secrets
+   *
+   * @param token - Vault token
+   * @returns Summary, or undefined for unknown or revoked tokens
+   */
+  async describe(token: string): Promise<VaultSummary | undefined> {
+    const ownerId = await this.findOwner(token);
+    const record = ownerId ? await this.load(ownerId) : null;
+    return record ? summarize(record) : undefined;
+  }
+
+  /**
+   * Add, replace or remove secrets
+   *
+   * @param token - Vault token
+   * @param changes - New secrets keyed by integration, null removes the integration
+   * @returns Updated summary, or undefined for unknown or revoked tokens
+   */
+  async update(token: string, changes: Record<string, string | null>): Promise<VaultSummary | undefined> {
+    const opened = await this.open(token);
+    if (!opened) {
+      return undefined;
+    }
+
+    const { ownerId, record, secrets } = opened;
+    const integrations = { ...record.integrations };
+    const now = Date.now();
+    for (const [name, secret] of Object.entries(changes)) {
+      if (secret === null) {
+        delete secrets[name];
+        delete integrations[name];
+      } else {
+        secrets[name] = secret;
+        integrations[name] = now;
+      }
+    }
+
+    return summarize(await this.save(ownerId, record, secrets, integrations));
+  }
+
+  /**
+   * Replace the token of a vault, revoking the old one
+   *
+   * @param token - Current vault token
+   * @returns New token and the summary, or undefined for unknown or revoked tokens
+   */
+  async rotate(token: string): Promise<{ token: string; summary: VaultSummary } | undefined> {
+    const opened = await this.open(token);
+    if (!opened) {
+      return undefined;
+    }
+
+    const { ownerId, record, secrets } = opened;
+    const nextToken = `${VAULT_TOKEN_PREFIX}${randomToken()}`;
+    const next = await this.seal(ownerId, await sha256Hex(nextToken), secrets, record);
+    await this.kv.put(ownerKey(ownerId), JSON.stringify(next));
+    await this.kv.put(tokenKey(next.tokenHash), ownerId);
+    await this.kv.delete(tokenKey(record.tokenHash));
+
+    return { token: nextToken, summary: summarize(next) };
+  }
+
+  /**
+   * Delete a vault and revoke its token
+   *
+   * @param token - Vault token
+   * @returns Whether a vault was deleted
+   */
+  async destroy(token: string): Promise<boolean> {
+    const ownerId = await this.findOwner(token);
+    if (!ownerId) {
+      return false;
+    }
+    const record = await this.load(ownerId);
+    await this.kv.delete(ownerKey(ownerId));
+    await this.kv.delete(tokenKey(record?.tokenHash ?? await sha256Hex(token)));
+    return true;
+  }
+
+  private async findOwner(token: string): Promise<string | null> {
+    return this.kv.get(tokenKey(await sha256Hex(token)));
+  }
+
+  private async load(ownerId: string): Promise<VaultRecord | null> {
+    return this.kv.get<VaultRecord>(ownerKey(ownerId), "json");
+  }
+
+  /**
+   * Load and decrypt the vault a token belongs to
+   */
+  private async open(token: string): Promise<OpenedVault | undefined> {
+    const ownerId = await this.findOwner(token);
+    return ownerId ? this.openOwner(ownerId) : undefined;
+  }
+
+  /**
+   * Load and decrypt the vault of an owner
+   */
+  private async openOwner(ownerId: string): Promise<OpenedVault | undefined> {
+    const record = await this.load(ownerId);
+    if (!record) {
+      return undefined;
+    }
+
+    const key = [this.currentKey, this.previousKey].find(candidate => candidate?.id === record.keyId);
+    if (!key) {
+      throw new Error("Credential vault record is encrypted with an unknown key");
+    }
+    const secrets = JSON.parse(await decryptText(key.key, record.secrets, ownerId)) as Record<string, string>;
+    return { ownerId, record, secrets };
+  }
+
+  /**
+   * Encrypt the secrets and store the record under the same token
+   */
+  private async save(
+    ownerId: string,
+    record: VaultRecord,
+    secrets: Record<string, string>,
+    integrations: Record<string, number>
+  ): Promise<VaultRecord> {
+    const next = await this.seal(ownerId, record.tokenHash, secrets, { integrations, createdAt: record.createdAt });
+    await this.kv.put(ownerKey(ownerId), JSON.stringify(next));
+    return next;
+  }
+
+  /**
+   * Build a record with the secrets encrypted under the current key
+   */
+  private async seal(
+    ownerId: string,
+    tokenHash: string,
+    secrets: Record<string, string>,
+    meta: Pick<VaultRecord, "integrations" | "createdAt">
+  ): Promise<VaultRecord> {
+    return {
+      tokenHash,
+      keyId: this.currentKey.id,
+      secrets: await encryptText(this.currentKey.key, JSON.stringify(secrets), ownerId),
+      integrations: meta.integrations,
+      createdAt: meta.createdAt,
+      updatedAt: Date.now(),
+    };
+  }
+}
+
+/**
+ * Check whether a Bearer token is a vault token
+ *
+ * @param token - Bearer token
+ * @returns True if the token has the vault prefix
+ */
+export function isVaultToken(token: string): boolean {
+  return token.startsWith(VAULT_TOKEN_PREFIX);
+}
+
+async function loadKey(secret: string): Promise<VaultKey> {
+  return {
+    // A short hash of the key material, so records can name their key without revealing it
+    id: (await sha256Hex(secret.trim())).substring(0, 8),
+    key: await importAesKey(secret),
+  };
+}
+
+function summarize(record: VaultRecord): VaultSummary {
+  return {
+    integrations: Object.entries(record.integrations)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, updatedAt]) => ({ name, updatedAt: new Date(updatedAt).toISOString() })),
+    createdAt: new Date(record.createdAt).toISOString(),
+    updatedAt: new Date(record.updatedAt).toISOString(),
+  };
+}
+
+function tokenKey(tokenHash: string): string {
+  return `vault:token:${tokenHash}`;
+}
+
+function ownerKey(ownerId: string): string {
+  return `vault:owner:${ownerId}`;
+}
@@ -0,0 +1,175 @@
+/**
+ * HTTP API of the credential vault
+ *   POST   /credentials                  store secrets, returns a new vault token
+ *   GET    /credentials                  list the configured integrations
+ *   PUT    /credentials                  add, replace or remove (null) secrets
+ *   POST   /credentials/rotate           replace the vault token
+ *   DELETE /credentials/<integration>    remove one integration
+ *   DELETE /credentials                  delete the vault
+ * Every route except creation takes the vault token as Bearer token. Secrets
+ * are write-only: no response ever contains them
+ */
+import { INTEGRATIONS } from "../tools/handler";
+import { Env } from "../types/index.js";
+import { CredentialVault, isVaultToken, MAX_SECRET_LENGTH } from "./vault";
+import { consoleLogger } from "../utils/log_utils";
+
+export const VAULT_PATH = "/credentials";
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+// Request rejected by the vault API, answered with its status
+class VaultRequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Check whether a request targets the vault API
+ *
+ * @param request - Incoming request
+ * @returns True for /credentials and its sub-paths
+ */
+export function isVaultRequest(request: Request): boolean {
+  const { pathname } = new URL(request.url);
+  return pathname === VAULT_PATH || pathname.startsWith(`${VAULT_PATH}/`);
+}
+
+/**
+ * Handle a request to the vault API
+ *
+ * @param request - Incoming request
+ * @param env - Worker environment
+ * @returns JSON response
+ */
+export async function handleVaultRequest(request: Request, env: Env): Promise<Response> {
+  if (request.method === "OPTIONS") {
+    return new Response(null, { headers: CORS_HEADERS });
+  }
+
+  const vault = await CredentialVault.fromEnv(env);
+  if (!vault) {
+    return jsonResponse(501, { error: "Credential vault is not configured" });
+  }
+
+  try {
+    const route = new URL(request.url).pathname.substring(VAULT_PATH.length).replace(/^\/|\/$/g, "");
+    return await routeVaultRequest(request, vault, route);
+  } catch (error) {
+    if (error instanceof VaultRequestError) {
+      return jsonResponse(error.status, { error: error.message });
+    }
+    consoleLogger.error("Error handling credential vault request", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return jsonResponse(500, { error: "Internal error" });
+  }
+}
+
+async function routeVaultRequest(request: Request, vault: CredentialVault, route: string): Promise<Response> {
+  if (request.method === "POST" && route === "") {
+    const secrets = await readSecrets(request, false) as Record<string, string>;
+    if (Object.keys(secrets).length === 0) {
+      throw new VaultRequestError(400, "At least one credential is required");
+    }
+    const { token, summary } = await vault.create(secrets);
+    return jsonResponse(201, { token, ...summary });
+  }
+
+  const token = getBearerToken(request);
+
+  if (request.method === "GET" && route === "") {
+    return jsonResponse(200, found(await vault.describe(token)));
+  }
+
+  if (request.method === "PUT" && route === "") {
+    return jsonResponse(200, found(await vault.update(token, await readSecrets(request, true))));
+  }
+
+  if (request.method === "POST" && route === "rotate") {
+    const { token: nextToken, summary } = found(await vault.rotate(token));
+    return jsonResponse(200, { token: nextToken, ...summary });
+  }
+
+  if (request.method === "DELETE" && route === "") {
+    if (!await vault.destroy(token)) {
+      throw new VaultRequestError(401, "Unknown or revoked vault token");
+    }
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  if (request.method === "DELETE" && INTEGRATIONS.includes(route)) {
+    return jsonResponse(200, found(await vault.update(token, { [route]: null })));
+  }
+
+  throw new VaultRequestError(404, "Not found");
+}
+
+/**
+ * Read the vault token, rejecting raw secrets sent by mistake
+ */
+function getBearerToken(request: Request): string {
+  const authHeader = request.headers.get("Authorization");
+  const token = authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : "";
+  if (!isVaultToken(token)) {
+    throw new VaultRequestError(401, "A vault token is required as Bearer token");
+  }
+  return token;
+}
+
+/**
+ * Read and validate the {"credentials": {...}} body
+ *
+ * @param allowRemoval - Whether null values (removing an integration) are allowed
+ */
+async function readSecrets(request: Request, allowRemoval: boolean): Promise<Record<string, string | null>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new VaultRequestError(400, "Body must be JSON");
+  }
+
+  const credentials = (body as { credentials?: unknown } | null)?.credentials;
+  if (typeof credentials !== "object" || credentials === null || Array.isArray(credentials)) {
+    throw new VaultRequestError(400, "Body must contain a credentials object keyed by integration");
+  }
+
+  const secrets: Record<string, string | null> = {};
+  for (const [name, secret] of Object.entries(credentials)) {
+    const integration = name.toLowerCase();
+    if (!INTEGRATIONS.includes(integration)) {
+      throw new VaultRequestError(400, `Unknown integration: ${name}`);
+    }
+    if (secret === null && allowRemoval) {
+      secrets[integration] = null;
+    } else if (typeof secret === "string" && secret && secret.length <= MAX_SECRET_LENGTH) {
+      secrets[integration] = secret;
+    } else {
+      throw new VaultRequestError(400, `Credential for ${name} must be a non-empty string of at most ${MAX_SECRET_LENGTH} characters`);
+    }
+  }
+  return secrets;
+}
+
+/**
+ * Unwrap a vault result, answering 401 for unknown or revoked tokens
+ */
+function found<T>(result: T | undefined): T {
+  if (result === undefined) {
+    throw new VaultRequestError(401, "Unknown or revoked vault token");
+  }
+  return result;
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
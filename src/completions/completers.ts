@@ -0,0 +1,94 @@
+/**
+ * Argument completers shared by tools, prompts and resource templates
+ * Static completers match against fixed value sets, live completers list
+ * S3 keys or sandbox files for the value typed so far
+ */
+import { Completer } from "../types/index.js";
+import { IMAGE_MODELS } from "../tools/image/image-router/image_router_generate";
+import { createS3Client, listS3Children, parseS3ApiKey } from "../utils/s3_utils";
+import { createSandbox } from "../utils/e2b_utils";
+import { consoleLogger } from "../utils/log_utils";
+import { matchValues, MAX_COMPLETION_VALUES, staticCompleter } from "./completion_utils";
+
+// Directory listed when a sandbox path has no directory part yet
+const SANDBOX_HOME = "/home/user/";
+
+// IANA time zones known to the runtime
+export const timeZoneCompleter = staticCompleter(() => Intl.supportedValuesOf("timeZone"));
+
+// ISO 4217 currency codes known to the runtime
+export const currencyCompleter = staticCompleter(() => Intl.supportedValuesOf("currency"));
+
+export const imageModelCompleter = staticCompleter(IMAGE_MODELS);
+
+/**
+ * Completes S3 paths as accepted by the S3 tools
+ * With a default bucket in the API key the path is a key, otherwise the first
+ * segment names the bucket and is kept in the suggestions
+ */
+export const s3PathCompleter: Completer = async (value, context) => {
+  const credentials = parseS3ApiKey(context.credentials.require("s3"));
+  const path = value.startsWith("/") ? value.substring(1) : value;
+
+  let bucket = credentials.bucket;
+  let prefix = path;
+  if (!bucket) {
+    const separator = path.indexOf("/");
+    if (separator < 0) {
+      return [];
+    }
+    bucket = path.substring(0, separator);
+    prefix = path.substring(separator + 1);
+  }
+
+  const keys = await listS3Children(createS3Client(credentials), bucket, prefix, MAX_COMPLETION_VALUES);
+  return credentials.bucket ? keys : keys.map(key => `${bucket}/${key}`);
+};
+
+/**
+ * Completes S3 object keys of the s3://{bucket}/{key} resource template
+ */
+export const s3KeyCompleter: Completer = async (value, context) => {
+  const credentials = parseS3ApiKey(context.credentials.require("s3"));
+  const bucket = context.arguments.bucket || credentials.bucket;
+  if (!bucket) {
+    return [];
+  }
+  return listS3Children(createS3Client(credentials), bucket, value, MAX_COMPLETION_VALUES);
+};
+
+/**
+ * Completes S3 bucket names of the s3://{bucket}/{key} resource template
+ * Only the bucket configured in the API key is known without listing buckets
+ */
+export const s3BucketCompleter: Completer = (value, { credentials }) => {
+  const { bucket } = parseS3ApiKey(credentials.require("s3"));
+  return bucket ? matchValues([bucket], value) : [];
+};
+
+/**
+ * Completes file paths inside an E2B sandbox
+ * Needs the sandboxId argument; the sandbox is resumed for the listing and
+ * paused again afterwards so its state is kept
+ */
+export const sandboxPathCompleter: Completer = async (value, { credentials, arguments: args }) => {
+  if (!args.sandboxId) {
+    return [];
+  }
+
+  const directory = value.includes("/") ? value.substring(0, value.lastIndexOf("/") + 1) : SANDBOX_HOME;
+  const sandbox = await createSandbox(credentials.require("e2b"), args.sandboxId);
+
+  try {
+    const entries = await sandbox.files.list(directory);
+    const paths = entries.map(entry => String(entry.type) === "dir" ? `${entry.path}/` : entry.path);
+    return matchValues(paths, value);
+  } finally {
+    await sandbox.pause().catch(error => {
+      consoleLogger.warning("Error pausing sandbox after completion", {
+        sandboxId: args.sandboxId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+};
@@ -0,0 +1,60 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { Completer } from "../types/index.js";
+
+// Maximum number of values in a completion/complete result, set by the spec
+export const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Filter candidate values by the partial value typed so far
+ * Case-insensitive prefix matches come first, followed by values that merely
+ * contain the partial value (so "shang" still finds Asia/Shanghai)
+ *
+ * @param values - Candidate values
+ * @param partial - Partial argument value
+ * @returns Matching values
+ */
+export function matchValues(values: readonly string[], partial: string): string[] {
+  const needle = partial.toLowerCase();
+  if (!needle) {
+    return [...values];
+  }
+
+  const prefixed: string[] = [];
+  const contained: string[] = [];
+  for (const value of values) {
+    const candidate = value.toLowerCase();
+    if (candidate.startsWith(needle)) {
+      prefixed.push(value);
+    } else if (candidate.includes(needle)) {
+      contained.push(value);
+    }
+  }
+  return [...prefixed, ...contained];
+}
+
+/**
+ * Create a completer over a fixed set of values
+ *
+ * @param values - Values, or a function producing them on first use
+ * @returns Completer matching the values against the partial value
+ */
+export function staticCompleter(values: readonly string[] | (() => readonly string[])): Completer {
+  let resolved = typeof values === "function" ? undefined : values;
+  return (value) => {
+    resolved ??= (values as () => readonly string[])();
+    return matchValues(resolved, value);
+  };
+}
+
+/**
+ * Read the string enum of a tool argument from its input schema
+ *
+ * @param tool - Tool definition
+ * @param argument - Argument name
+ * @returns Enum values, or undefined if the argument has no string enum
+ */
+export function getSchemaEnum(tool: Tool, argument: string): string[] | undefined {
+  const property = (tool.inputSchema.properties as Record<string, { enum?: unknown[] }> | undefined)?.[argument];
+  const values = property?.enum?.filter((value): value is string => typeof value === "string");
+  return values?.length ? values : undefined;
+}
@@ -0,0 +1,122 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Completer, CompletionContext } from "../types/index.js";
+import { getTools } from "../tools/handler";
+import { findPrompt } from "../prompts/handler";
+import { getTemplateCompleter } from "../resources/templates";
+import { consoleLogger } from "../utils/log_utils";
+import { getSchemaEnum, MAX_COMPLETION_VALUES, staticCompleter } from "./completion_utils";
+import {
+  currencyCompleter,
+  imageModelCompleter,
+  s3PathCompleter,
+  sandboxPathCompleter,
+  timeZoneCompleter,
+} from "./completers";
+
+// What the completed argument belongs to; ref/tool is an extension of the spec
+export type CompletionReference =
+  | { type: "ref/prompt"; name: string }
+  | { type: "ref/resource"; uri: string }
+  | { type: "ref/tool"; name: string };
+
+export interface CompletionResult {
+  values: string[];
+  total?: number;
+  hasMore?: boolean;
+}
+
+// Completers for tool arguments, keyed by tool and argument name
+// Arguments without an entry fall back to the enum in the tool's input schema
+const TOOL_COMPLETERS: Record<string, Record<string, Completer>> = {
+  "google-calendar-create-event": { timezone: timeZoneCompleter },
+  "google-calendar-update-event": { timezone: timeZoneCompleter },
+  "alphavantage-forex-data": {
+    from_symbol: currencyCompleter,
+    to_symbol: currencyCompleter,
+    from_currency: currencyCompleter,
+    to_currency: currencyCompleter,
+  },
+  "image-router-generate": { model: imageModelCompleter },
+  "s3-read-file": { path: s3PathCompleter },
+  "s3-write-to-file": { path: s3PathCompleter },
+  "s3-edit-file": { path: s3PathCompleter },
+  "e2b-list-files": { path: sandboxPathCompleter },
+  "e2b-read-file": { path: sandboxPathCompleter },
+  "e2b-write-to-file": { path: sandboxPathCompleter },
+};
+
+/**
+ * Complete an argument of a prompt, resource template or tool
+ * Failing live listings (e.g. S3 or E2B errors) yield no values rather than an error
+ *
+ * @param ref - Prompt, resource template or tool the argument belongs to
+ * @param argument - Argument name and the value typed so far
+ * @param context - Completion context with credentials and the other arguments
+ * @param readOnly - Only complete prompts and tools available in read-only mode
+ * @returns Up to 100 matching values
+ */
+export async function complete(
+  ref: CompletionReference,
+  argument: { name: string; value: string },
+  context: CompletionContext,
+  readOnly = false
+): Promise<CompletionResult> {
+  const completer = findCompleter(ref, argument.name, context.integrations, readOnly);
+  if (!completer) {
+    return { values: [], hasMore: false };
+  }
+
+  let values: string[];
+  try {
+    values = await completer(argument.value, context);
+  } catch (error) {
+    consoleLogger.warning("Error completing argument", {
+      ref,
+      argument: argument.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { values: [], hasMore: false };
+  }
+
+  return {
+    values: values.slice(0, MAX_COMPLETION_VALUES),
+    total: values.length,
+    hasMore: values.length > MAX_COMPLETION_VALUES,
+  };
+}
+
+/**
+ * Look up the completer of an argument
+ * Unknown prompts, templates and tools are rejected as invalid params
+ */
+function findCompleter(ref: CompletionReference, argument: string, integrations: string[], readOnly: boolean): Completer | undefined {
+  switch (ref.type) {
+    case "ref/prompt": {
+      const definition = findPrompt(ref.name, integrations, readOnly);
+      if (!definition) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${ref.name}`);
+      }
+      return definition.completions?.[argument];
+    }
+
+    case "ref/resource": {
+      const completer = getTemplateCompleter(ref.uri, argument, integrations);
+      if (completer === undefined) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource template: ${ref.uri}`);
+      }
+      return completer ?? undefined;
+    }
+
+    case "ref/tool": {
+      const tool = getTools(integrations, readOnly).find(item => item.name === ref.name);
+      if (!tool) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${ref.name}`);
+      }
+      const values = getSchemaEnum(tool, argument);
+      return TOOL_COMPLETERS[tool.name]?.[argument] ?? (values && staticCompleter(values));
+    }
+
+    default:
+      throw new McpError(ErrorCode.InvalidParams, "Invalid completion reference");
+  }
+}
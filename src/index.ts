@@ -1,13 +1,50 @@
 import { StreamableHTTPServerTransport } from "./transport/http-transport";
-import { Env } from "./types/index";
+import { isStatefulMode, routeSessionRequest } from "./session/session_router";
+import { handleVaultRequest, isVaultRequest } from "./auth/vault_router";
+import { handleOAuthRequest, isOAuthRequest } from "./auth/oauth_router";
+import { isOAuthEnabled } from "./auth/oauth";
+import { handleUsageRequest, isUsageRequest } from "./usage/usage_router";
+import { handleAuditRequest, isAuditRequest } from "./audit/audit_router";
+import { handleMetricsRequest, isMetricsRequest } from "./metrics/metrics_router";
+import { Env, ExecutionContext } from "./types/index";
+
+export { McpSessionObject } from "./session/session_object";
+export { RateLimiterObject } from "./ratelimit/rate_limiter_object";
+export { MetricsObject } from "./metrics/metrics_object";
 
 /**
  * Main entry point for Cloudflare Worker
  * Sets up the HTTP transport and handles requests
+ * In stateful mode requests are routed to their session's Durable Object
+ * /credentials is the credential vault API, /usage the usage reports, /audit the
+ * audit log and /metrics the Prometheus metrics, outside of MCP
+ * With OAuth enabled, the OAuth metadata, /register, /authorize and /token serve OAuth clients
  */
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    if (isOAuthEnabled(env) && isOAuthRequest(request)) {
+      return handleOAuthRequest(request, env);
+    }
+
+    if (isUsageRequest(request)) {
+      return handleUsageRequest(request, env);
+    }
+    if (isAuditRequest(request)) {
+      return handleAuditRequest(request, env);
+    }
+    if (isMetricsRequest(request)) {
+      return handleMetricsRequest(request, env);
+    }
+
+    if (isVaultRequest(request)) {
+      return handleVaultRequest(request, env);
+    }
+
+    if (isStatefulMode(env)) {
+      return routeSessionRequest(request, env);
+    }
+
     const transport = new StreamableHTTPServerTransport();
-    return transport.handleRequest(request, env);
+    return transport.handleRequest(request, env, ctx);
   }
 };
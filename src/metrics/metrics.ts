@@ -0,0 +1,226 @@
+/**
+ * Tool and upstream metrics, exposed in the Prometheus text format under /metrics
+ * Every tool call sends one sample to one of METRICS_SHARDS MetricsObjects,
+ * picked at random so no single object takes every write. The shards keep the
+ * counters of every isolate, so they only ever grow, and are summed when scraped:
+ *   y_server_tool_calls_total{tool, outcome}
+ *   y_server_tool_errors_total{tool, code}
+ *   y_server_tool_call_duration_seconds{tool} (histogram)
+ *   y_server_upstream_requests_total{service, status}
+ *   y_server_upstream_request_duration_seconds{service} (histogram)
+ */
+import { Env, UpstreamCall } from "../types/index.js";
+import { consoleLogger } from "../utils/log_utils";
+
+// Upper bounds of the latency histogram buckets, in seconds
+export const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+// Number of MetricsObjects the samples are spread over
+const METRICS_SHARDS = 8;
+
+// Outcome of one tool call
+export interface ToolMetricsSample {
+  // Tool name, "unknown" for names that are not served, to bound the label values
+  tool: string;
+  latencyMs: number;
+  success: boolean;
+  // ToolErrorCode of failed calls
+  errorCode?: string;
+  upstream: UpstreamCall[];
+}
+
+// Latency distribution of one series
+export interface Histogram {
+  // Observations per bucket of DURATION_BUCKETS, not cumulative, those above the last are only counted
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+// Every series, keyed by metric name and then by rendered label set
+export interface MetricsSnapshot {
+  counters: Record<string, Record<string, number>>;
+  histograms: Record<string, Record<string, Histogram>>;
+}
+
+// Help text of each metric
+const METRIC_HELP: Record<string, string> = {
+  y_server_tool_calls_total: "Tool calls by outcome",
+  y_server_tool_errors_total: "Failed tool calls by error code",
+  y_server_tool_call_duration_seconds: "Duration of tool calls",
+  y_server_upstream_requests_total: "Requests to upstream services by HTTP status",
+  y_server_upstream_request_duration_seconds: "Duration of requests to upstream services",
+};
+
+/**
+ * Send the outcome of a tool call to a MetricsObject, if metrics are enabled
+ * Failures are logged and never fail the call itself
+ *
+ * @param env - Worker environment
+ * @param sample - The call
+ */
+export async function recordToolMetrics(env: Env | undefined, sample: ToolMetricsSample): Promise<void> {
+  if (!env?.METRICS) {
+    return;
+  }
+
+  try {
+    const response = await getShard(env.METRICS, Math.floor(Math.random() * METRICS_SHARDS)).fetch("https://metrics/record", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(sample),
+    });
+    if (!response.ok) {
+      throw new Error(`Metrics object responded with ${response.status}`);
+    }
+  } catch (error) {
+    consoleLogger.warning("Error recording tool metrics", {
+      tool: sample.tool,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Read every series from the MetricsObjects, summing the shards
+ *
+ * @param metrics - MetricsObject namespace
+ * @returns The current counters and histograms
+ */
+export async function fetchMetricsSnapshot(metrics: DurableObjectNamespace): Promise<MetricsSnapshot> {
+  const shards = await Promise.all(Array.from({ length: METRICS_SHARDS }, async (_, index) => {
+    const response = await getShard(metrics, index).fetch("https://metrics/snapshot");
+    if (!response.ok) {
+      throw new Error(`Metrics object responded with ${response.status}`);
+    }
+    return await response.json() as MetricsSnapshot;
+  }));
+
+  const total: MetricsSnapshot = { counters: {}, histograms: {} };
+  for (const shard of shards) {
+    mergeSnapshot(total, shard);
+  }
+  return total;
+}
+
+/**
+ * Add a tool call to a snapshot
+ *
+ * @param snapshot - Series to update in place
+ * @param sample - The call
+ */
+export function applySample(snapshot: MetricsSnapshot, sample: ToolMetricsSample): void {
+  const tool = { tool: sample.tool };
+  increment(snapshot, "y_server_tool_calls_total", { ...tool, outcome: sample.success ? "success" : "error" });
+  if (!sample.success) {
+    increment(snapshot, "y_server_tool_errors_total", { ...tool, code: sample.errorCode ?? "internal_error" });
+  }
+  observe(snapshot, "y_server_tool_call_duration_seconds", tool, sample.latencyMs / 1000);
+
+  for (const call of sample.upstream) {
+    increment(snapshot, "y_server_upstream_requests_total", { service: call.service, status: String(call.status) });
+    observe(snapshot, "y_server_upstream_request_duration_seconds", { service: call.service }, call.latencyMs / 1000);
+  }
+}
+
+/**
+ * Render a snapshot in the Prometheus text exposition format
+ *
+ * @param snapshot - Series to render
+ * @returns Exposition text, one line per sample
+ */
+export function formatPrometheus(snapshot: MetricsSnapshot): string {
+  const lines: string[] = [];
+
+  for (const [name, series] of Object.entries(snapshot.counters).sort(byKey)) {
+    lines.push(`# HELP ${name} ${METRIC_HELP[name] ?? name}`, `# TYPE ${name} counter`);
+    for (const [labels, value] of Object.entries(series).sort(byKey)) {
+      lines.push(`${name}{${labels}} ${value}`);
+    }
+  }
+
+  for (const [name, series] of Object.entries(snapshot.histograms).sort(byKey)) {
+    lines.push(`# HELP ${name} ${METRIC_HELP[name] ?? name}`, `# TYPE ${name} histogram`);
+    for (const [labels, histogram] of Object.entries(series).sort(byKey)) {
+      // Prometheus buckets are cumulative
+      let cumulative = 0;
+      DURATION_BUCKETS.forEach((bound, index) => {
+        cumulative += histogram.buckets[index] ?? 0;
+        lines.push(`${name}_bucket{${labels},le="${bound}"} ${cumulative}`);
+      });
+      lines.push(
+        `${name}_bucket{${labels},le="+Inf"} ${histogram.count}`,
+        `${name}_sum{${labels}} ${histogram.sum}`,
+        `${name}_count{${labels}} ${histogram.count}`
+      );
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Add every series of a snapshot to another
+ *
+ * @param target - Series to update in place
+ * @param source - Series to add
+ */
+function mergeSnapshot(target: MetricsSnapshot, source: MetricsSnapshot): void {
+  for (const [name, series] of Object.entries(source.counters)) {
+    const targetSeries = target.counters[name] ??= {};
+    for (const [labels, value] of Object.entries(series)) {
+      targetSeries[labels] = (targetSeries[labels] ?? 0) + value;
+    }
+  }
+
+  for (const [name, series] of Object.entries(source.histograms)) {
+    const targetSeries = target.histograms[name] ??= {};
+    for (const [labels, histogram] of Object.entries(series)) {
+      const sum = targetSeries[labels] ??= { buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+      histogram.buckets.forEach((count, index) => {
+        sum.buckets[index] = (sum.buckets[index] ?? 0) + count;
+      });
+      sum.sum += histogram.sum;
+      sum.count += histogram.count;
+    }
+  }
+}
+
+/**
+ * Get the MetricsObject of a shard
+ */
+function getShard(metrics: DurableObjectNamespace, index: number): DurableObjectStub {
+  return metrics.get(metrics.idFromName(`shard-${index}`));
+}
+
+function increment(snapshot: MetricsSnapshot, name: string, labels: Record<string, string>): void {
+  const series = snapshot.counters[name] ??= {};
+  const key = formatLabels(labels);
+  series[key] = (series[key] ?? 0) + 1;
+}
+
+function observe(snapshot: MetricsSnapshot, name: string, labels: Record<string, string>, seconds: number): void {
+  const series = snapshot.histograms[name] ??= {};
+  const key = formatLabels(labels);
+  const histogram = series[key] ??= { buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+
+  const index = DURATION_BUCKETS.findIndex(bound => seconds <= bound);
+  if (index !== -1) {
+    histogram.buckets[index]++;
+  }
+  histogram.sum += seconds;
+  histogram.count++;
+}
+
+/**
+ * Render a label set, escaping the values as the exposition format requires
+ */
+function formatLabels(labels: Record<string, string>): string {
+  return Object.entries(labels)
+    .map(([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`)
+    .join(",");
+}
+
+function byKey<T>(a: [string, T], b: [string, T]): number {
+  return a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0;
+}
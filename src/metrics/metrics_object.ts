@@ -0,0 +1,55 @@
+/**
+ * Durable Object holding the tool and upstream metrics of one shard
+ * Samples are applied in memory, and the series are persisted a few seconds
+ * after the first unsaved sample, so a burst of calls costs one write and the
+ * counters survive the object being evicted
+ */
+import { applySample, MetricsSnapshot, ToolMetricsSample } from "./metrics";
+
+const SNAPSHOT_KEY = "snapshot";
+
+// Delay between the first unsaved sample and the write persisting it
+const PERSIST_DELAY_MS = 5_000;
+
+export class MetricsObject implements DurableObject {
+  private snapshot?: MetricsSnapshot;
+  // Whether samples were applied since the snapshot was last persisted
+  private dirty = false;
+
+  constructor(private readonly objectState: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+
+    if (request.method === "POST" && pathname === "/record") {
+      const sample = await request.json() as ToolMetricsSample;
+      const snapshot = await this.load();
+      applySample(snapshot, sample);
+      if (!this.dirty) {
+        this.dirty = true;
+        await this.objectState.storage.setAlarm(Date.now() + PERSIST_DELAY_MS);
+      }
+      return new Response(null, { status: 204 });
+    }
+
+    if (request.method === "GET" && pathname === "/snapshot") {
+      return new Response(JSON.stringify(await this.load()), { headers: { "Content-Type": "application/json" } });
+    }
+
+    return new Response("Not Found", { status: 404 });
+  }
+
+  async alarm(): Promise<void> {
+    if (!this.dirty || !this.snapshot) {
+      return;
+    }
+    // Samples arriving during the write schedule the next one
+    this.dirty = false;
+    await this.objectState.storage.put(SNAPSHOT_KEY, this.snapshot);
+  }
+
+  private async load(): Promise<MetricsSnapshot> {
+    this.snapshot ??= await this.objectState.storage.get<MetricsSnapshot>(SNAPSHOT_KEY) ?? { counters: {}, histograms: {} };
+    return this.snapshot;
+  }
+}
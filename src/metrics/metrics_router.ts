@@ -0,0 +1,57 @@
+/**
+ * Prometheus scrape endpoint
+ *   GET /metrics with Authorization: Bearer <METRICS_TOKEN>
+ * Serves the series kept by the MetricsObject in the text exposition format
+ */
+import { isAdminRequest } from "../auth/caller";
+import { Env } from "../types/index.js";
+import { consoleLogger } from "../utils/log_utils";
+import { fetchMetricsSnapshot, formatPrometheus } from "./metrics";
+
+export const METRICS_PATH = "/metrics";
+
+/**
+ * Check whether a request targets the metrics endpoint
+ *
+ * @param request - Incoming request
+ * @returns True for /metrics
+ */
+export function isMetricsRequest(request: Request): boolean {
+  return new URL(request.url).pathname === METRICS_PATH;
+}
+
+/**
+ * Handle a scrape of the metrics endpoint
+ *
+ * @param request - Incoming request
+ * @param env - Worker environment
+ * @returns Metrics in the Prometheus text format
+ */
+export async function handleMetricsRequest(request: Request, env: Env): Promise<Response> {
+  if (request.method !== "GET") {
+    return textResponse(405, "Method not allowed\n");
+  }
+  if (!env.METRICS || !env.METRICS_TOKEN) {
+    return textResponse(501, "Metrics are not configured\n");
+  }
+  if (!await isAdminRequest(request, env.METRICS_TOKEN)) {
+    return textResponse(401, "The metrics token is required\n", { "WWW-Authenticate": "Bearer" });
+  }
+
+  try {
+    const snapshot = await fetchMetricsSnapshot(env.METRICS);
+    return textResponse(200, formatPrometheus(snapshot), { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+  } catch (error) {
+    consoleLogger.error("Error reading metrics", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return textResponse(500, "Internal error\n");
+  }
+}
+
+function textResponse(status: number, body: string, headers: Record<string, string> = {}): Response {
+  return new Response(body, {
+    status,
+    headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store", ...headers },
+  });
+}
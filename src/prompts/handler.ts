@@ -0,0 +1,77 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { PromptDefinition } from "../types/index.js";
+import { getTools } from "../tools/handler";
+import { TRIAGE_INBOX_PROMPT } from "./triage_inbox";
+import { SUMMARIZE_BILIBILI_VIDEO_PROMPT } from "./summarize_bilibili_video";
+import { PLAN_WEEK_PROMPT } from "./plan_week";
+import { RESEARCH_TOPIC_PROMPT } from "./research_topic";
+
+const ALL_PROMPTS: PromptDefinition[] = [
+  TRIAGE_INBOX_PROMPT,
+  SUMMARIZE_BILIBILI_VIDEO_PROMPT,
+  PLAN_WEEK_PROMPT,
+  RESEARCH_TOPIC_PROMPT,
+];
+
+/**
+ * Get the prompt definitions whose tools the caller can use
+ * Availability follows getTools, so the same integration prefixes apply
+ * 
+ * @param integrations - Optional list of integration prefixes to filter prompts by
+ * @param readOnly - Only consider tools annotated as read-only
+ * @returns Array of prompt definitions
+ */
+function getAvailablePrompts(integrations?: string[], readOnly = false): PromptDefinition[] {
+  const toolNames = new Set(getTools(integrations, readOnly).map(tool => tool.name));
+  return ALL_PROMPTS.filter(definition => definition.tools.every(name => toolNames.has(name)));
+}
+
+/**
+ * Find an available prompt definition by name
+ * 
+ * @param name - Prompt name
+ * @param integrations - Optional list of integration prefixes to filter prompts by
+ * @param readOnly - Only consider prompts whose tools are all read-only
+ * @returns The prompt definition, or undefined if it is unknown or unavailable
+ */
+export function findPrompt(name: string, integrations?: string[], readOnly = false): PromptDefinition | undefined {
+  return getAvailablePrompts(integrations, readOnly).find(item => item.prompt.name === name);
+}
+
+/**
+ * Get all available prompts
+ * 
+ * @param integrations - Optional list of integration prefixes to filter prompts by
+ * @param readOnly - Only list prompts whose tools are all read-only
+ * @returns Array of prompt descriptors
+ */
+export function getPrompts(integrations?: string[], readOnly = false): Prompt[] {
+  return getAvailablePrompts(integrations, readOnly).map(definition => definition.prompt);
+}
+
+/**
+ * Render a prompt with the given arguments
+ * 
+ * @param name - Prompt name
+ * @param args - Prompt arguments
+ * @param integrations - Optional list of integration prefixes the caller has enabled
+ * @param readOnly - Only render prompts whose tools are all read-only
+ * @returns Rendered prompt messages
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}, integrations?: string[], readOnly = false): GetPromptResult {
+  const definition = findPrompt(name, integrations, readOnly);
+  if (!definition) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  for (const argument of definition.prompt.arguments || []) {
+    if (argument.required && !args[argument.name]) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument for ${name}: ${argument.name}`);
+    }
+  }
+
+  return {
+    description: definition.prompt.description,
+    messages: definition.render(args),
+  };
+}
@@ -0,0 +1,50 @@
+import { PromptDefinition } from "../types/index.js";
+import { GET_CALENDAR_EVENTS_TOOL } from "../tools/calendar/google";
+import { userMessage } from "./prompt_utils";
+import { timeZoneCompleter } from "../completions/completers";
+
+// Prompt definition
+export const PLAN_WEEK_PROMPT: PromptDefinition = {
+  prompt: {
+    name: "plan-week",
+    description: "Plan the week ahead from Google Calendar events.",
+    arguments: [
+      {
+        name: "weekStart",
+        description: "First day of the week as YYYY-MM-DD (defaults to today)",
+        required: false
+      },
+      {
+        name: "timeZone",
+        description: "IANA time zone to plan in (e.g. Asia/Shanghai)",
+        required: false
+      },
+      {
+        name: "goals",
+        description: "Goals or tasks that need time this week",
+        required: false
+      }
+    ]
+  },
+  tools: [GET_CALENDAR_EVENTS_TOOL.name],
+  completions: {
+    timeZone: timeZoneCompleter
+  },
+  render: (args) => {
+    const range = args.weekStart
+      ? `the 7 days starting ${args.weekStart}`
+      : "the next 7 days starting today";
+    const lines = [
+      `Help me plan ${range}${args.timeZone ? ` in the ${args.timeZone} time zone` : ""}.`,
+      "",
+      `1. Call \`${GET_CALENDAR_EVENTS_TOOL.name}\` with timeMin and timeMax covering ${range}.`,
+      "2. Give a day by day overview of the scheduled events.",
+      "3. Point out conflicts, back to back meetings and days without focus time.",
+      "4. Propose free slots for deep work and for the goals below.",
+    ];
+    if (args.goals) {
+      lines.push("", `Goals for this week: ${args.goals}`);
+    }
+    return [userMessage(lines.join("\n"))];
+  }
+};
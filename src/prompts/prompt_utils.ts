@@ -0,0 +1,11 @@
+import { PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Build a user text message for a rendered prompt
+ */
+export function userMessage(text: string): PromptMessage {
+  return {
+    role: "user",
+    content: { type: "text", text }
+  };
+}
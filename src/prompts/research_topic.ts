@@ -0,0 +1,46 @@
+import { PromptDefinition } from "../types/index.js";
+import { SEARCH_TOOL as TAVILY_SEARCH_TOOL } from "../tools/search/tavily/tavily_search";
+import { SEARCH_TOOL as EXA_SEARCH_TOOL } from "../tools/search/exa/exa_search";
+import { CONTENTS_TOOL as EXA_CONTENTS_TOOL } from "../tools/fetch/exa/exa_contents";
+import { userMessage } from "./prompt_utils";
+import { staticCompleter } from "../completions/completion_utils";
+
+// Prompt definition
+export const RESEARCH_TOPIC_PROMPT: PromptDefinition = {
+  prompt: {
+    name: "research-topic",
+    description: "Research a topic with Tavily and Exa and write a sourced report.",
+    arguments: [
+      {
+        name: "topic",
+        description: "The topic or question to research",
+        required: true
+      },
+      {
+        name: "depth",
+        description: "\"quick\" for a short answer or \"deep\" for a detailed report (defaults to quick)",
+        required: false
+      }
+    ]
+  },
+  tools: [TAVILY_SEARCH_TOOL.name, EXA_SEARCH_TOOL.name, EXA_CONTENTS_TOOL.name],
+  completions: {
+    depth: staticCompleter(["quick", "deep"])
+  },
+  render: (args) => {
+    const deep = args.depth === "deep";
+    const lines = [
+      `Research the following topic: ${args.topic}`,
+      "",
+      `1. Call \`${TAVILY_SEARCH_TOOL.name}\` for recent news and overview pages.`,
+      `2. Call \`${EXA_SEARCH_TOOL.name}\` to find in-depth articles, papers and primary sources.`,
+      `3. Call \`${EXA_CONTENTS_TOOL.name}\` on the ${deep ? "5 to 8" : "2 or 3"} most relevant results to read them in full.`,
+      deep
+        ? "4. Write a detailed report with sections, open questions and points where sources disagree."
+        : "4. Write a concise answer of a few paragraphs.",
+      "",
+      "Cite every claim with the URL it came from.",
+    ];
+    return [userMessage(lines.join("\n"))];
+  }
+};
@@ -0,0 +1,45 @@
+import { PromptDefinition } from "../types/index.js";
+import { BILIBILI_FETCH_TOOL } from "../tools/fetch/bilibili/bilibili_fetch";
+import { userMessage } from "./prompt_utils";
+
+// Prompt definition
+export const SUMMARIZE_BILIBILI_VIDEO_PROMPT: PromptDefinition = {
+  prompt: {
+    name: "summarize-bilibili-video",
+    description: "Summarize a Bilibili video from its subtitles.",
+    arguments: [
+      {
+        name: "bvid",
+        description: "The Bilibili BV ID (e.g., BV1xx411c7mD)",
+        required: true
+      },
+      {
+        name: "p",
+        description: "Page number for multi-part videos (defaults to 1)",
+        required: false
+      },
+      {
+        name: "language",
+        description: "Language to write the summary in (defaults to the language of the conversation)",
+        required: false
+      }
+    ]
+  },
+  tools: [BILIBILI_FETCH_TOOL.name],
+  render: (args) => {
+    const page = args.p || "1";
+    const lines = [
+      `Summarize the Bilibili video ${args.bvid}.`,
+      "",
+      `1. Call \`${BILIBILI_FETCH_TOOL.name}\` with bvid \`${args.bvid}\` and p ${page} to get the subtitles.`,
+      "2. Write a short overview of what the video is about.",
+      "3. List the key points in order, each with the timestamp where it starts.",
+      "",
+      "If the video has no subtitles, say so instead of guessing its content.",
+    ];
+    if (args.language) {
+      lines.push("", `Write the summary in ${args.language}.`);
+    }
+    return [userMessage(lines.join("\n"))];
+  }
+};
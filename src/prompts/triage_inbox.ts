@@ -0,0 +1,40 @@
+import { PromptDefinition } from "../types/index.js";
+import { BULK_GET_EMAILS_TOOL, QUERY_EMAILS_TOOL } from "../tools/email/gmail";
+import { userMessage } from "./prompt_utils";
+
+// Prompt definition
+export const TRIAGE_INBOX_PROMPT: PromptDefinition = {
+  prompt: {
+    name: "triage-unread-mail",
+    description: "Triage unread Gmail messages into what needs a reply, what needs action and what can be archived.",
+    arguments: [
+      {
+        name: "maxEmails",
+        description: "Maximum number of unread emails to look at (defaults to 20)",
+        required: false
+      },
+      {
+        name: "focus",
+        description: "Optional topic, sender or project to prioritize",
+        required: false
+      }
+    ]
+  },
+  tools: [QUERY_EMAILS_TOOL.name, BULK_GET_EMAILS_TOOL.name],
+  render: (args) => {
+    const maxEmails = args.maxEmails || "20";
+    const lines = [
+      "Triage my unread mail.",
+      "",
+      `1. Call \`${QUERY_EMAILS_TOOL.name}\` with the query \`is:unread in:inbox\` and at most ${maxEmails} results.`,
+      `2. Call \`${BULK_GET_EMAILS_TOOL.name}\` with the returned IDs to read the messages.`,
+      "3. Sort every email into one of: Needs reply, Needs action, FYI, Can archive.",
+      "",
+      "For each email give the sender, subject and a one line reason. For emails that need a reply, suggest the key points of the answer.",
+    ];
+    if (args.focus) {
+      lines.push("", `Prioritize anything related to: ${args.focus}`);
+    }
+    return [userMessage(lines.join("\n"))];
+  }
+};
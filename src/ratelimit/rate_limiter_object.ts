@@ -0,0 +1,84 @@
+/**
+ * Durable Object counting the tool calls of a single caller
+ * Every caller gets its own object, so its counters are updated one request at
+ * a time without races. Counters of callers that go quiet are dropped by an alarm
+ */
+import { RateLimit, RateLimitStatus, windowMs } from "./rate_limits";
+
+// Idle time after which the counters of a caller are deleted
+const IDLE_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Counters of one tool
+interface ToolCounters {
+  windowStart: number;
+  windowCount: number;
+  // Start of the UTC day the daily count belongs to
+  dayStart: number;
+  dayCount: number;
+}
+
+export class RateLimiterObject implements DurableObject {
+  constructor(private readonly objectState: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.method !== "POST") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    const { tool, limit } = await request.json() as { tool: string; limit: RateLimit };
+    const status = await this.check(tool, limit, Date.now());
+    return new Response(JSON.stringify(status), { headers: { "Content-Type": "application/json" } });
+  }
+
+  async alarm(): Promise<void> {
+    await this.objectState.storage.deleteAll();
+  }
+
+  /**
+   * Count a call of a tool if both caps allow it
+   * Rejected calls are not counted
+   */
+  private async check(tool: string, limit: RateLimit, now: number): Promise<RateLimitStatus> {
+    const key = `tool:${tool}`;
+    const length = windowMs(limit);
+    const windowStart = Math.floor(now / length) * length;
+    const dayStart = Math.floor(now / DAY_MS) * DAY_MS;
+
+    // Counters of past windows start over
+    const stored = await this.objectState.storage.get<ToolCounters>(key);
+    const counters: ToolCounters = {
+      windowStart,
+      windowCount: stored?.windowStart === windowStart ? stored.windowCount : 0,
+      dayStart,
+      dayCount: stored?.dayStart === dayStart ? stored.dayCount : 0,
+    };
+
+    const caps: RateLimitStatus[] = [];
+    if (limit.burst !== undefined) {
+      caps.push(capStatus("burst", limit.burst, counters.windowCount, windowStart + length));
+    }
+    if (limit.daily !== undefined) {
+      caps.push(capStatus("daily", limit.daily, counters.dayCount, dayStart + DAY_MS));
+    }
+
+    const rejected = caps.filter(cap => !cap.allowed);
+    if (rejected.length > 0) {
+      // Report the cap that stays closed the longest
+      return rejected.reduce((a, b) => (b.resetAt > a.resetAt ? b : a));
+    }
+
+    counters.windowCount++;
+    counters.dayCount++;
+    await this.objectState.storage.put(key, counters);
+    await this.objectState.storage.setAlarm(now + IDLE_RETENTION_MS);
+
+    const counted = caps.map(cap => ({ ...cap, remaining: cap.remaining - 1 }));
+    return counted.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+  }
+}
+
+function capStatus(window: RateLimitStatus["window"], limit: number, count: number, resetAt: number): RateLimitStatus {
+  return { allowed: count < limit, window, limit, remaining: Math.max(0, limit - count), resetAt };
+}
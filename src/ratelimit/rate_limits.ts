@@ -0,0 +1,191 @@
+/**
+ * Per-caller rate limits and daily quotas of tool calls
+ * RATE_LIMITS maps tool names, or "*" for every other tool, to a limit:
+ *   {"tavily-search": {"burst": 30, "windowSeconds": 60, "daily": 1000}, "*": {"burst": 120}}
+ * burst caps the calls within a fixed window of windowSeconds (60 by default),
+ * daily caps the calls per UTC day. Counters live in the RateLimiterObject of
+ * the caller, so they are shared by every isolate, and are kept per tool.
+ * Anonymous callers are limited per client IP
+ */
+import { Env } from "../types/index.js";
+import { consoleLogger } from "../utils/log_utils";
+
+// JSON-RPC error code of calls rejected by the rate limiter
+export const RATE_LIMIT_EXCEEDED = -32029;
+
+// Limits applied when RATE_LIMITS names neither the tool nor "*"
+export const DEFAULT_RATE_LIMITS: Record<string, RateLimit> = {
+  "tavily-search": { burst: 30, windowSeconds: 60, daily: 1000 },
+  "image-router-generate": { burst: 5, windowSeconds: 60, daily: 100 },
+  "e2b-code": { burst: 20, windowSeconds: 60, daily: 500 },
+};
+
+const DEFAULT_WINDOW_SECONDS = 60;
+
+// Limit of one tool, either cap may be omitted
+export interface RateLimit {
+  // Calls allowed within one window
+  burst?: number;
+  windowSeconds?: number;
+  // Calls allowed per UTC day
+  daily?: number;
+}
+
+// Outcome of counting a call against the limit of its tool
+export interface RateLimitStatus {
+  allowed: boolean;
+  // Cap that rejected the call, or the one closest to being reached
+  window: "burst" | "daily";
+  limit: number;
+  remaining: number;
+  // When the window of the cap resets, in ms since epoch
+  resetAt: number;
+}
+
+/**
+ * Look up the limit of a tool
+ *
+ * @param toolName - Name of the tool
+ * @param env - Worker environment
+ * @returns The limit, or undefined if the tool is not limited
+ */
+export function getRateLimit(toolName: string, env: Env): RateLimit | undefined {
+  const limits = parseLimits(env.RATE_LIMITS);
+  const limit = limits[toolName] ?? limits["*"] ?? DEFAULT_RATE_LIMITS[toolName];
+  return limit && (limit.burst !== undefined || limit.daily !== undefined) ? limit : undefined;
+}
+
+/**
+ * Name the limiter of a request is keyed by
+ * Callers with credentials are limited by caller id, anonymous callers by
+ * client IP, so one anonymous client cannot use up the quota of every other
+ *
+ * @param request - Incoming request
+ * @param callerId - Id of the caller, undefined for anonymous callers
+ * @returns Limiter key
+ */
+export function getRateLimitKey(request: Request, callerId?: string): string {
+  if (callerId) {
+    return callerId;
+  }
+  const clientIp = request.headers.get("CF-Connecting-IP");
+  return clientIp ? `ip:${clientIp}` : "anonymous";
+}
+
+/**
+ * Count a tool call against the caller's limits
+ * The call is allowed when the limiter is not bound, the tool is not limited,
+ * or the limiter cannot be reached, so an outage never blocks every call
+ *
+ * @param env - Worker environment
+ * @param limiterKey - Key of the caller's limiter, see getRateLimitKey
+ * @param toolName - Name of the tool being called
+ * @returns Status of the binding cap, or undefined if the call is not limited
+ */
+export async function checkRateLimit(env: Env, limiterKey: string, toolName: string): Promise<RateLimitStatus | undefined> {
+  const limit = getRateLimit(toolName, env);
+  if (!env.RATE_LIMITER || !limit) {
+    return undefined;
+  }
+
+  try {
+    const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(limiterKey));
+    const response = await stub.fetch("https://rate-limiter/check", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ tool: toolName, limit }),
+    });
+    if (!response.ok) {
+      throw new Error(`Rate limiter responded with ${response.status}`);
+    }
+    return await response.json() as RateLimitStatus;
+  } catch (error) {
+    consoleLogger.warning("Rate limiter unavailable, allowing the call", {
+      tool: toolName,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Build the rate limit headers of an HTTP response
+ * Reports the status with the fewest remaining calls, and Retry-After when a call was rejected
+ *
+ * @param statuses - Statuses of the tool calls answered by the response
+ * @returns Headers to add, empty when no call was limited
+ */
+export function rateLimitHeaders(statuses: RateLimitStatus[]): Record<string, string> {
+  if (statuses.length === 0) {
+    return {};
+  }
+
+  const rejected = statuses.filter(status => !status.allowed);
+  const [status] = [...(rejected.length ? rejected : statuses)].sort((a, b) => a.remaining - b.remaining || b.resetAt - a.resetAt);
+  return {
+    "X-RateLimit-Limit": String(status.limit),
+    "X-RateLimit-Remaining": String(status.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(status.resetAt / 1000)),
+    ...(!status.allowed && { "Retry-After": String(retryAfterSeconds(status)) }),
+  };
+}
+
+/**
+ * Seconds until a rejected call may be retried
+ *
+ * @param status - Status of the rejected call
+ * @returns Whole seconds, at least 1
+ */
+export function retryAfterSeconds(status: RateLimitStatus): number {
+  return Math.max(1, Math.ceil((status.resetAt - Date.now()) / 1000));
+}
+
+/**
+ * Resolve the window length of a limit in ms
+ */
+export function windowMs(limit: RateLimit): number {
+  const seconds = limit.windowSeconds;
+  return (seconds !== undefined && seconds > 0 ? seconds : DEFAULT_WINDOW_SECONDS) * 1000;
+}
+
+/**
+ * Parse RATE_LIMITS, ignoring entries that are not valid limits
+ */
+function parseLimits(value?: string): Record<string, RateLimit> {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new Error("Limits must be a JSON object");
+    }
+
+    const limits: Record<string, RateLimit> = {};
+    for (const [tool, entry] of Object.entries(parsed)) {
+      const limit = entry as Record<string, unknown>;
+      if (typeof limit !== "object" || limit === null) {
+        continue;
+      }
+      const burst = toCount(limit.burst);
+      const daily = toCount(limit.daily);
+      const windowSeconds = toCount(limit.windowSeconds);
+      limits[tool] = {
+        ...(burst !== undefined && { burst }),
+        ...(windowSeconds !== undefined && { windowSeconds }),
+        ...(daily !== undefined && { daily }),
+      };
+    }
+    return limits;
+  } catch (error) {
+    consoleLogger.warning("Ignoring invalid RATE_LIMITS", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+}
+
+function toCount(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 ? value : undefined;
+}
@@ -0,0 +1,28 @@
+/**
+ * Resources for Bilibili video subtitles
+ * Exposed as bilibili://video/{bvid}/p/{p} URIs
+ */
+import { Env } from "../types/index.js";
+import { performBilibiliFetch } from "../tools/fetch/bilibili/bilibili_fetch";
+import { ResourceContents } from "./resource_utils";
+
+/**
+ * Reads the subtitles of one page of a Bilibili video
+ *
+ * @param uri - bilibili://video/{bvid}/p/{p} URI
+ * @param bvid - Bilibili BV ID
+ * @param page - Page number of the video
+ * @param apiKey - Bilibili cookies
+ * @param env - Cloudflare Worker environment
+ * @returns Resource contents
+ */
+export async function readBilibiliVideoResource(
+  uri: string,
+  bvid: string,
+  page: number,
+  apiKey: string,
+  env: Env
+): Promise<ResourceContents> {
+  const text = await performBilibiliFetch({ bvid, p: page }, apiKey, env);
+  return [{ uri, mimeType: "text/plain", text }];
+}
@@ -0,0 +1,64 @@
+/**
+ * Resources for files inside paused E2B sandboxes
+ * Exposed as e2b://{sandboxId}/{path} URIs
+ */
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Sandbox } from "@e2b/code-interpreter";
+import { createSandbox, pauseAfterFailure, pauseSandbox, toE2BError } from "../utils/e2b_utils";
+import { getMimeType } from "../utils/file_utils";
+import { RESOURCE_NOT_FOUND, ResourceContents, toResourceContents } from "./resource_utils";
+
+const E2B_URI_PATTERN = /^e2b:\/\/([^/]+)(\/.+)$/;
+
+/**
+ * Check whether a URI is an e2b:// URI
+ */
+export function isE2BUri(uri: string): boolean {
+  return E2B_URI_PATTERN.test(uri);
+}
+
+/**
+ * Read the sandbox id of an e2b:// URI
+ *
+ * @returns The sandbox id, or undefined for other URIs
+ */
+export function getE2BSandboxId(uri: string): string | undefined {
+  return uri.match(E2B_URI_PATTERN)?.[1];
+}
+
+/**
+ * Build the e2b:// URI for a file in a sandbox
+ */
+export function toE2BUri(sandboxId: string, path: string): string {
+  const absolutePath = path.startsWith('/') ? path : `/${path}`;
+  return `e2b://${sandboxId}${absolutePath.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Reads a file from a paused sandbox
+ * The sandbox is resumed for the read and paused again afterwards, also when the read fails
+ *
+ * @param uri - e2b://{sandboxId}/{path} URI
+ * @param apiKey - E2B API key
+ * @returns Resource contents
+ */
+export async function readE2BResource(uri: string, apiKey: string): Promise<ResourceContents> {
+  const match = uri.match(E2B_URI_PATTERN);
+  if (!match) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+  }
+
+  const sandboxId = match[1];
+  const path = decodeURIComponent(match[2]);
+
+  let sandbox: Sandbox | null = null;
+  try {
+    sandbox = await createSandbox(apiKey, sandboxId);
+    const data = await sandbox.files.read(path, { format: "bytes" });
+    await pauseSandbox(sandbox);
+    return toResourceContents(uri, data, getMimeType(path));
+  } catch (error) {
+    await pauseAfterFailure(sandbox);
+    throw toE2BError(error);
+  }
+}
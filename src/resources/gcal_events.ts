@@ -0,0 +1,27 @@
+/**
+ * Resources for Google Calendar events
+ * Exposed as gcal://events/{eventId} URIs
+ */
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { fetchCalendarEvent } from "../tools/calendar/google";
+import { RESOURCE_NOT_FOUND, ResourceContents, isUpstreamNotFound } from "./resource_utils";
+
+/**
+ * Reads an event from the primary calendar as JSON
+ *
+ * @param uri - gcal://events/{eventId} URI
+ * @param eventId - ID of the event
+ * @param apiKey - Google Calendar API key
+ * @returns Resource contents
+ */
+export async function readCalendarEventResource(uri: string, eventId: string, apiKey: string): Promise<ResourceContents> {
+  try {
+    const event = await fetchCalendarEvent(apiKey, eventId);
+    return [{ uri, mimeType: "application/json", text: JSON.stringify(event, null, 2) }];
+  } catch (error) {
+    if (isUpstreamNotFound(error)) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Resources for Gmail messages and threads
+ * Exposed as gmail://messages/{id} and gmail://threads/{threadId} URIs
+ */
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { fetchEmail, fetchThread } from "../tools/email/gmail";
+import { RESOURCE_NOT_FOUND, ResourceContents, isUpstreamNotFound } from "./resource_utils";
+
+/**
+ * Reads a Gmail message as JSON
+ *
+ * @param uri - gmail://messages/{id} URI
+ * @param emailId - ID of the message
+ * @param apiKey - Google Gmail API key
+ * @returns Resource contents
+ */
+export async function readGmailMessageResource(uri: string, emailId: string, apiKey: string): Promise<ResourceContents> {
+  try {
+    const email = await fetchEmail(apiKey, emailId);
+    return [{ uri, mimeType: "application/json", text: JSON.stringify(email, null, 2) }];
+  } catch (error) {
+    if (isUpstreamNotFound(error)) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads every message of a Gmail thread as a JSON array
+ *
+ * @param uri - gmail://threads/{threadId} URI
+ * @param threadId - ID of the thread
+ * @param apiKey - Google Gmail API key
+ * @returns Resource contents
+ */
+export async function readGmailThreadResource(uri: string, threadId: string, apiKey: string): Promise<ResourceContents> {
+  try {
+    const emails = await fetchThread(apiKey, threadId);
+    return [{ uri, mimeType: "application/json", text: JSON.stringify(emails, null, 2) }];
+  } catch (error) {
+    if (isUpstreamNotFound(error)) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+    }
+    throw error;
+  }
+}
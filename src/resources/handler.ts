@@ -0,0 +1,80 @@
+import { McpError, Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { ResourceContext } from "../types/index.js";
+import { isR2UploadUri, listR2UploadResources, readR2UploadResource } from "./r2_uploads";
+import { listS3Resources } from "./s3_objects";
+import { isE2BUri, readE2BResource } from "./e2b_files";
+import { listResourceTemplates, readTemplateResource } from "./templates";
+import { RESOURCE_NOT_FOUND, ResourceContents } from "./resource_utils";
+import { consoleLogger } from "../utils/log_utils";
+
+/**
+ * List the resources available to the caller
+ * Combines recent CDN uploads with objects in the caller's S3 bucket
+ * A failing provider is logged and skipped so the others still show up
+ * 
+ * @param context - Resource request context
+ * @returns Array of resource descriptors
+ */
+export async function listResources(context: ResourceContext): Promise<Resource[]> {
+  const { credentials, env, integrations, callerId } = context;
+  const providers: Array<{ name: string; list: () => Promise<Resource[]> }> = [];
+
+  if (callerId && env.CDN_BUCKET) {
+    providers.push({ name: "r2", list: () => listR2UploadResources(env, callerId) });
+  }
+
+  const s3ApiKey = credentials.get("s3");
+  if (s3ApiKey && integrations.includes("s3")) {
+    providers.push({ name: "s3", list: () => listS3Resources(s3ApiKey) });
+  }
+
+  const results = await Promise.all(providers.map(async provider => {
+    try {
+      return await provider.list();
+    } catch (error) {
+      consoleLogger.error("Error listing resources", {
+        provider: provider.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }));
+
+  return results.flat();
+}
+
+/**
+ * List the resource templates available to the caller
+ * 
+ * @param context - Resource request context
+ * @returns Array of resource templates
+ */
+export function getResourceTemplates(context: ResourceContext): ResourceTemplate[] {
+  return listResourceTemplates(context.integrations);
+}
+
+/**
+ * Read a resource by URI
+ * 
+ * @param uri - Resource URI (CDN URL, e2b:// or one of the resource templates)
+ * @param context - Resource request context
+ * @returns Resource contents as text or base64 blob
+ */
+export async function readResource(uri: string, context: ResourceContext): Promise<ResourceContents> {
+  const { credentials, env, callerId } = context;
+
+  if (isR2UploadUri(uri)) {
+    return readR2UploadResource(uri, env, callerId);
+  }
+
+  if (isE2BUri(uri)) {
+    return readE2BResource(uri, credentials.require("e2b"));
+  }
+
+  const contents = await readTemplateResource(uri, context);
+  if (contents) {
+    return contents;
+  }
+
+  throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+}
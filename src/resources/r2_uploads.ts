@@ -0,0 +1,65 @@
+/**
+ * Resources for files uploaded to the CDN bucket by tools
+ * (generated images, sandbox files, Alpha Vantage exports)
+ */
+import { McpError, Resource } from "@modelcontextprotocol/sdk/types.js";
+import { Env } from "../types/index.js";
+import { getMimeType } from "../utils/file_utils";
+import { CDN_BASE_URL, listR2Uploads } from "../utils/r2_utils";
+import { RESOURCE_NOT_FOUND, ResourceContents, toResourceContents } from "./resource_utils";
+
+/**
+ * Check whether a URI points into the CDN bucket
+ */
+export function isR2UploadUri(uri: string): boolean {
+  return uri.startsWith(CDN_BASE_URL);
+}
+
+/**
+ * Lists the recent uploads made for a caller
+ *
+ * @param env - Cloudflare Worker environment
+ * @param callerId - Caller the uploads were made for
+ * @returns Resource descriptors, newest first
+ */
+export async function listR2UploadResources(env: Env, callerId: string): Promise<Resource[]> {
+  const uploads = await listR2Uploads(env, callerId);
+
+  return uploads.map(object => ({
+    uri: `${CDN_BASE_URL}${object.key}`,
+    name: object.key.split('/').pop() || object.key,
+    description: `Uploaded ${object.uploaded.toISOString()} (${object.size} bytes)`,
+    mimeType: object.httpMetadata?.contentType || getMimeType(object.key),
+  }));
+}
+
+/**
+ * Reads an uploaded file from the CDN bucket
+ * Only uploads made for the caller can be read, like only those are listed
+ *
+ * @param uri - CDN URL of the file
+ * @param env - Cloudflare Worker environment
+ * @param callerId - Caller reading the file, undefined for anonymous callers
+ * @returns Resource contents
+ */
+export async function readR2UploadResource(uri: string, env: Env, callerId?: string): Promise<ResourceContents> {
+  if (!env.CDN_BUCKET) {
+    throw new Error('R2 bucket not available');
+  }
+
+  // Files of other callers are reported as missing, so their keys cannot be probed
+  const key = decodeURIComponent(uri.substring(CDN_BASE_URL.length));
+  if (!callerId || !key.startsWith(`${callerId}/`)) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+  }
+
+  const object = await env.CDN_BUCKET.get(key);
+  if (!object) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+  }
+
+  const mimeType = object.httpMetadata?.contentType || getMimeType(key);
+  const data = new Uint8Array(await object.arrayBuffer());
+
+  return toResourceContents(uri, data, mimeType);
+}
@@ -0,0 +1,35 @@
+/**
+ * Helpers shared by the resource providers
+ */
+import { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { isTextMimeType } from "../utils/file_utils";
+import { arrayBufferToBase64 } from "../utils/r2_utils";
+import { NotFoundError, toToolError } from "../utils/error_utils";
+
+export type ResourceContents = ReadResourceResult["contents"];
+
+// JSON-RPC error code for resources that do not exist
+export const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * Builds resource contents, returning text for text based MIME types
+ * and base64 encoded blobs for everything else
+ *
+ * @param uri - Resource URI
+ * @param data - Raw resource content
+ * @param mimeType - MIME type of the content
+ * @returns Contents for a resources/read result
+ */
+export function toResourceContents(uri: string, data: Uint8Array, mimeType: string): ResourceContents {
+  if (isTextMimeType(mimeType)) {
+    return [{ uri, mimeType, text: new TextDecoder().decode(data) }];
+  }
+  return [{ uri, mimeType, blob: arrayBufferToBase64(data) }];
+}
+
+/**
+ * Check whether an upstream API error means the requested item does not exist
+ */
+export function isUpstreamNotFound(error: unknown): boolean {
+  return toToolError(error) instanceof NotFoundError;
+}
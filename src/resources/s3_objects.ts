@@ -0,0 +1,77 @@
+/**
+ * Resources for objects stored in the caller's S3 compatible storage
+ * Exposed as s3://bucket/key URIs
+ */
+import { McpError, Resource } from "@modelcontextprotocol/sdk/types.js";
+import { getMimeType } from "../utils/file_utils";
+import { createS3Client, getS3Object, listS3Objects, parseS3ApiKey } from "../utils/s3_utils";
+import { RESOURCE_NOT_FOUND, ResourceContents, isUpstreamNotFound, toResourceContents } from "./resource_utils";
+
+export const S3_URI_PATTERN = /^s3:\/\/([^/]+)\/(.+)$/;
+
+/**
+ * Build the s3:// URI for an object
+ */
+export function toS3Uri(bucket: string, key: string): string {
+  return `s3://${bucket}/${key.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Lists objects in the default bucket of the S3 API key
+ * Nothing is listed when the API key does not name a bucket
+ *
+ * @param apiKey - S3 API key
+ * @returns Resource descriptors
+ */
+export async function listS3Resources(apiKey: string): Promise<Resource[]> {
+  const credentials = parseS3ApiKey(apiKey);
+  if (!credentials.bucket) {
+    return [];
+  }
+
+  const bucket = credentials.bucket;
+  const objects = await listS3Objects(createS3Client(credentials), bucket);
+
+  return objects.map(object => ({
+    uri: toS3Uri(bucket, object.key),
+    name: object.key,
+    description: object.lastModified
+      ? `Last modified ${object.lastModified.toISOString()} (${object.size ?? 0} bytes)`
+      : undefined,
+    mimeType: getMimeType(object.key),
+  }));
+}
+
+/**
+ * Reads an object from S3
+ *
+ * @param uri - s3://bucket/key URI
+ * @param apiKey - S3 API key
+ * @returns Resource contents
+ */
+export async function readS3Resource(uri: string, apiKey: string): Promise<ResourceContents> {
+  const match = uri.match(S3_URI_PATTERN);
+  if (!match) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+  }
+
+  const bucket = match[1];
+  const key = decodeURIComponent(match[2]);
+  const s3Client = createS3Client(parseS3ApiKey(apiKey));
+
+  let object;
+  try {
+    object = await getS3Object(s3Client, bucket, key);
+  } catch (error) {
+    if (isUpstreamNotFound(error)) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+    }
+    throw error;
+  }
+
+  const mimeType = object.contentType && object.contentType !== "application/octet-stream"
+    ? object.contentType
+    : getMimeType(key);
+
+  return toResourceContents(uri, object.data, mimeType);
+}
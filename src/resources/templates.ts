@@ -0,0 +1,132 @@
+/**
+ * Resource templates advertised through resources/templates/list
+ * Each template owns the URI pattern used to resolve it in resources/read
+ */
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { Completer, ResourceContext } from "../types/index.js";
+import { s3BucketCompleter, s3KeyCompleter } from "../completions/completers";
+import { readGmailMessageResource, readGmailThreadResource } from "./gmail_messages";
+import { readCalendarEventResource } from "./gcal_events";
+import { readS3Resource, S3_URI_PATTERN } from "./s3_objects";
+import { readBilibiliVideoResource } from "./bilibili_videos";
+import { ResourceContents } from "./resource_utils";
+
+interface ResourceTemplateEntry {
+  template: ResourceTemplate;
+  // Integration prefix the template belongs to, always listed when omitted
+  integration?: string;
+  pattern: RegExp;
+  read: (uri: string, params: string[], context: ResourceContext) => Promise<ResourceContents>;
+  // Completers for the template variables, keyed by variable name
+  completions?: Record<string, Completer>;
+}
+
+const RESOURCE_TEMPLATES: ResourceTemplateEntry[] = [
+  {
+    template: {
+      uriTemplate: "gmail://messages/{id}",
+      name: "Gmail message",
+      description: "A Gmail message with its full body and attachment IDs",
+      mimeType: "application/json",
+    },
+    integration: "google-gmail",
+    pattern: /^gmail:\/\/messages\/([^/]+)$/,
+    read: (uri, [id], { credentials }) => readGmailMessageResource(uri, id, credentials.require("google-gmail")),
+  },
+  {
+    template: {
+      uriTemplate: "gmail://threads/{threadId}",
+      name: "Gmail thread",
+      description: "All messages of a Gmail thread",
+      mimeType: "application/json",
+    },
+    integration: "google-gmail",
+    pattern: /^gmail:\/\/threads\/([^/]+)$/,
+    read: (uri, [threadId], { credentials }) => readGmailThreadResource(uri, threadId, credentials.require("google-gmail")),
+  },
+  {
+    template: {
+      uriTemplate: "gcal://events/{eventId}",
+      name: "Google Calendar event",
+      description: "An event from the primary Google Calendar",
+      mimeType: "application/json",
+    },
+    integration: "google-calendar",
+    pattern: /^gcal:\/\/events\/([^/]+)$/,
+    read: (uri, [eventId], { credentials }) => readCalendarEventResource(uri, eventId, credentials.require("google-calendar")),
+  },
+  {
+    template: {
+      uriTemplate: "s3://{bucket}/{key}",
+      name: "S3 object",
+      description: "An object in S3 compatible storage",
+    },
+    integration: "s3",
+    pattern: S3_URI_PATTERN,
+    read: (uri, _params, { credentials }) => readS3Resource(uri, credentials.require("s3")),
+    completions: {
+      bucket: s3BucketCompleter,
+      key: s3KeyCompleter,
+    },
+  },
+  {
+    template: {
+      uriTemplate: "bilibili://video/{bvid}/p/{p}",
+      name: "Bilibili video subtitles",
+      description: "Subtitles of one page of a Bilibili video",
+      mimeType: "text/plain",
+    },
+    pattern: /^bilibili:\/\/video\/([^/]+)\/p\/(\d+)$/,
+    read: (uri, [bvid, page], { credentials, env }) =>
+      readBilibiliVideoResource(uri, bvid, Number(page), credentials.require("bilibili"), env),
+  },
+];
+
+/**
+ * Lists the resource templates for the enabled integrations
+ * Mirrors getTools: without integrations only the always available templates are listed
+ *
+ * @param integrations - Enabled integration prefixes
+ * @returns Resource templates
+ */
+export function listResourceTemplates(integrations: string[]): ResourceTemplate[] {
+  return RESOURCE_TEMPLATES
+    .filter(entry => !entry.integration || integrations.includes(entry.integration))
+    .map(entry => entry.template);
+}
+
+/**
+ * Reads a resource through the template matching its URI
+ *
+ * @param uri - Resource URI
+ * @param context - Resource request context
+ * @returns Resource contents, or undefined when no template matches
+ */
+export async function readTemplateResource(uri: string, context: ResourceContext): Promise<ResourceContents | undefined> {
+  for (const entry of RESOURCE_TEMPLATES) {
+    const match = uri.match(entry.pattern);
+    if (match) {
+      const params = match.slice(1).map(decodeURIComponent);
+      return entry.read(uri, params, context);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the completer of a template variable
+ *
+ * @param uriTemplate - URI template the client refers to
+ * @param variable - Name of the template variable
+ * @param integrations - Enabled integration prefixes
+ * @returns The completer, null if the variable has none, or undefined if the template is unknown
+ */
+export function getTemplateCompleter(uriTemplate: string, variable: string, integrations: string[]): Completer | null | undefined {
+  const entry = RESOURCE_TEMPLATES.find(item =>
+    item.template.uriTemplate === uriTemplate && (!item.integration || integrations.includes(item.integration))
+  );
+  if (!entry) {
+    return undefined;
+  }
+  return entry.completions?.[variable] ?? null;
+}
@@ -0,0 +1,132 @@
+/**
+ * Durable Object backing a single stateful MCP session
+ * Holds the negotiated session state and runs the transport for every
+ * request routed to the session
+ */
+import { StreamableHTTPServerTransport } from "../transport/http-transport";
+import { InFlightRequests } from "../transport/cancellation";
+import { ClientRequests } from "../transport/client_requests";
+import { authenticateRequest, isOAuthEnabled, OAuthNotConfiguredError, TokenGrant } from "../auth/oauth";
+import { Env, SessionHandle, SessionState } from "../types/index";
+import {
+  NEW_SESSION_HEADER,
+  SESSION_ID_HEADER,
+  sessionNotFoundResponse,
+  sessionOAuthNotConfiguredResponse,
+  sessionUnauthorizedResponse,
+} from "./session_router";
+
+const STATE_KEY = "state";
+
+// Default idle time before a session expires
+const DEFAULT_SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+export class McpSessionObject implements DurableObject {
+  private state?: SessionState;
+  private loaded = false;
+  // Requests of this session in flight, so notifications/cancelled can abort them
+  private readonly inFlight = new InFlightRequests();
+  // Elicitations sent to the client, settled by the POST carrying its answer
+  private readonly clientRequests = new ClientRequests();
+
+  constructor(private readonly objectState: DurableObjectState, private readonly env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const sessionId = request.headers.get(SESSION_ID_HEADER);
+    if (!sessionId) {
+      return sessionNotFoundResponse();
+    }
+
+    const state = await this.loadState();
+    const isNew = request.headers.get(NEW_SESSION_HEADER) === "1";
+
+    // Unknown or expired session
+    if (!state && !isNew) {
+      return sessionNotFoundResponse();
+    }
+
+    if (request.method === "DELETE") {
+      // With OAuth only the user that initialized the session may end it,
+      // other users are told it does not exist like on any other request
+      if (isOAuthEnabled(this.env)) {
+        let grant: TokenGrant | undefined;
+        try {
+          grant = await authenticateRequest(request, this.env);
+        } catch (error) {
+          if (error instanceof OAuthNotConfiguredError) {
+            return sessionOAuthNotConfiguredResponse(error);
+          }
+          throw error;
+        }
+        if (!grant) {
+          return sessionUnauthorizedResponse(request);
+        }
+        if (state?.userId !== grant.userId) {
+          return sessionNotFoundResponse();
+        }
+      }
+      await this.destroy();
+      return new Response(null, { status: 200 });
+    }
+
+    const session: SessionHandle = {
+      id: sessionId,
+      state,
+      save: async (next: SessionState) => {
+        await this.saveState(next);
+        session.state = next;
+      },
+    };
+
+    const transport = new StreamableHTTPServerTransport(session, this.inFlight, this.clientRequests);
+    const response = await transport.handleRequest(request, this.env, this.objectState);
+
+    // Refresh the idle timer once the session exists
+    if (this.state) {
+      await this.saveState({ ...this.state, lastActivityAt: Date.now() });
+    }
+
+    return response;
+  }
+
+  async alarm(): Promise<void> {
+    const state = await this.loadState();
+    if (!state) {
+      return;
+    }
+
+    const expiresAt = state.lastActivityAt + this.ttlMs();
+    if (Date.now() >= expiresAt) {
+      await this.destroy();
+    } else {
+      await this.objectState.storage.setAlarm(expiresAt);
+    }
+  }
+
+  private async loadState(): Promise<SessionState | undefined> {
+    if (!this.loaded) {
+      this.state = await this.objectState.storage.get<SessionState>(STATE_KEY);
+      this.loaded = true;
+    }
+    return this.state;
+  }
+
+  private async saveState(state: SessionState): Promise<void> {
+    this.state = state;
+    this.loaded = true;
+    await this.objectState.storage.put(STATE_KEY, state);
+    await this.objectState.storage.setAlarm(state.lastActivityAt + this.ttlMs());
+  }
+
+  private async destroy(): Promise<void> {
+    this.state = undefined;
+    this.loaded = true;
+    await this.objectState.storage.deleteAlarm();
+    await this.objectState.storage.deleteAll();
+  }
+
+  private ttlMs(): number {
+    const ttl = Number(this.env.SESSION_TTL_SECONDS);
+    return (Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_SESSION_TTL_SECONDS) * 1000;
+  }
+}
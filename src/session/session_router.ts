@@ -0,0 +1,130 @@
+/**
+ * Routing for stateful MCP sessions
+ * Requests carrying an Mcp-Session-Id are forwarded to the Durable Object
+ * that owns the session, initialize requests mint a new session id
+ */
+import { ErrorCode, isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { StreamableHTTPServerTransport } from "../transport/http-transport";
+import { OAuthNotConfiguredError, wwwAuthenticate } from "../auth/oauth";
+import { Env } from "../types/index";
+
+export const SESSION_ID_HEADER = "Mcp-Session-Id";
+
+// Internal header set by the router when forwarding a freshly minted session
+export const NEW_SESSION_HEADER = "X-Mcp-Session-New";
+
+/**
+ * Check whether the worker is configured for stateful sessions
+ *
+ * @param env - Cloudflare Worker environment
+ * @returns True if stateful mode is enabled and the namespace is bound
+ */
+export function isStatefulMode(env: Env): boolean {
+  return env.SESSION_MODE === "stateful" && !!env.MCP_SESSIONS;
+}
+
+/**
+ * Route a request to the Durable Object owning its session
+ *
+ * @param request - Incoming request
+ * @param env - Cloudflare Worker environment
+ * @returns Response from the session, or an error response
+ */
+export async function routeSessionRequest(request: Request, env: Env): Promise<Response> {
+  // Only POST and DELETE are session bound, everything else stays stateless
+  if (request.method !== "POST" && request.method !== "DELETE") {
+    return new StreamableHTTPServerTransport().handleRequest(request, env);
+  }
+
+  const sessionId = request.headers.get(SESSION_ID_HEADER);
+  if (sessionId) {
+    if (!isValidSessionId(sessionId)) {
+      return sessionErrorResponse(400, "Bad Request: Invalid Mcp-Session-Id header");
+    }
+    return forwardToSession(request, env, sessionId, false);
+  }
+
+  if (request.method === "DELETE") {
+    return sessionErrorResponse(400, "Bad Request: Mcp-Session-Id header is required");
+  }
+
+  // Without a session id only an initialize request is acceptable
+  let body: unknown;
+  try {
+    body = await request.clone().json();
+  } catch {
+    // Let the transport produce the usual parse error
+    return new StreamableHTTPServerTransport().handleRequest(request, env);
+  }
+
+  if (!isInitializeRequest(body)) {
+    return sessionErrorResponse(400, "Bad Request: Mcp-Session-Id header is required");
+  }
+
+  return forwardToSession(request, env, crypto.randomUUID(), true);
+}
+
+/**
+ * Build the JSON-RPC error returned for unknown or expired sessions
+ */
+export function sessionNotFoundResponse(): Response {
+  return sessionErrorResponse(404, "Session not found", -32001);
+}
+
+/**
+ * Build the JSON-RPC error returned when OAuth is enabled and the request
+ * carries no valid access token
+ */
+export function sessionUnauthorizedResponse(request: Request): Response {
+  return sessionErrorResponse(401, "Unauthorized: A valid OAuth access token is required", -32000, {
+    "WWW-Authenticate": wwwAuthenticate(request),
+  });
+}
+
+/**
+ * Build the JSON-RPC error returned when OAuth is enabled but not configured
+ */
+export function sessionOAuthNotConfiguredResponse(error: OAuthNotConfiguredError): Response {
+  return sessionErrorResponse(501, error.message, ErrorCode.InternalError);
+}
+
+/**
+ * Forward a request to the session's Durable Object
+ */
+async function forwardToSession(request: Request, env: Env, sessionId: string, isNew: boolean): Promise<Response> {
+  const namespace = env.MCP_SESSIONS!;
+  const stub = namespace.get(namespace.idFromName(sessionId));
+
+  const headers = new Headers(request.headers);
+  headers.set(SESSION_ID_HEADER, sessionId);
+  headers.delete(NEW_SESSION_HEADER);
+  if (isNew) {
+    headers.set(NEW_SESSION_HEADER, "1");
+  }
+
+  return stub.fetch(new Request(request, { headers }));
+}
+
+/**
+ * Session ids must only contain visible ASCII characters
+ */
+function isValidSessionId(sessionId: string): boolean {
+  return /^[\x21-\x7E]{1,128}$/.test(sessionId);
+}
+
+function sessionErrorResponse(status: number, message: string, code: number = -32000, headers: Record<string, string> = {}): Response {
+  return new Response(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code, message },
+      id: null,
+    }),
+    {
+      status,
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+    }
+  );
+}
@@ -1,5 +1,8 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { google } from "googleapis";
+import { ToolContext } from "../../../types/index.js";
+import { InvalidInputError, toToolError, UpstreamHttpError } from "../../../utils/error_utils";
+import { createCalendarClient } from "../../../utils/google_utils";
+import { consoleLogger } from "../../../utils/log_utils";
 
 // Type definitions
 export interface CreateEventArgs {
@@ -17,6 +20,13 @@ export interface CreateEventArgs {
 export const CREATE_CALENDAR_EVENT_TOOL: Tool = {
   name: "google-calendar-create-event",
   description: "Creates a new event in a specified Google Calendar.",
+  annotations: {
+    title: "Create Calendar Event",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -77,24 +87,17 @@ export function isCreateEventArgs(args: unknown): args is CreateEventArgs {
  * 
  * @param apiKey - Google Calendar API key
  * @param args - Arguments for creating the event
+ * @param context - Tool context used to report the created event
  * @returns Formatted string with the created event data
  */
-export async function createCalendarEvent(apiKey: string, args: CreateEventArgs): Promise<string> {
+export async function createCalendarEvent(apiKey: string, args: CreateEventArgs, context: ToolContext = {}): Promise<string> {
   try {
     // Validate required arguments
     if (!args.summary || !args.startTime || !args.endTime) {
-      return "Error: Missing required arguments (summary, startTime, endTime)";
+      throw new InvalidInputError("Missing required arguments (summary, startTime, endTime)");
     }
     
-    // Initialize OAuth2 client
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials({ access_token: apiKey });
-    
-    // Initialize Google Calendar API client with authenticated OAuth client
-    const calendar = google.calendar({
-      version: 'v3',
-      auth: oauth2Client
-    });
+    const calendar = await createCalendarClient(apiKey, context);
     
     // Prepare event data
     const event: any = {
@@ -128,12 +131,15 @@ export async function createCalendarEvent(apiKey: string, args: CreateEventArgs)
     });
     
     if (!response.data) {
-      return "Error: Failed to create event";
+      throw new UpstreamHttpError("Failed to create event");
     }
+    context.reportAffected?.({ eventId: response.data.id });
     
     return JSON.stringify(response.data, null, 2);
   } catch (error) {
-    console.error("Error creating calendar event:", error);
-    return `Error creating calendar event: ${error instanceof Error ? error.message : String(error)}`;
+    consoleLogger.error("Error creating calendar event", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw toToolError(error, "Error creating calendar event");
   }
 }
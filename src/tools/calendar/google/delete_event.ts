@@ -1,5 +1,10 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { google } from "googleapis";
+import { ToolContext } from "../../../types/index.js";
+import { InvalidInputError, NotConfirmedError, toToolError } from "../../../utils/error_utils";
+import { createCalendarClient } from "../../../utils/google_utils";
+import { requestConfirmation } from "../../../utils/confirmation_utils";
+import { CalendarEvent, fetchCalendarEvent } from "./get_events";
+import { consoleLogger } from "../../../utils/log_utils";
 
 // Type definitions
 export interface DeleteEventArgs {
@@ -11,6 +16,13 @@ export interface DeleteEventArgs {
 export const DELETE_CALENDAR_EVENT_TOOL: Tool = {
   name: "google-calendar-delete-event",
   description: "Deletes an event from the user's Google Calendar by its event ID.",
+  annotations: {
+    title: "Delete Calendar Event",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -39,27 +51,33 @@ export function isDeleteEventArgs(args: unknown): args is DeleteEventArgs {
 
 /**
  * Deletes an event from the user's Google Calendar by its event ID
+ * When confirmation is required the user is asked first, and the event is
+ * kept if the client cannot ask
  * 
  * @param apiKey - Google Calendar API key
  * @param args - Arguments for deleting the event
+ * @param context - Tool context used to ask for confirmation and to report the deleted event
  * @returns Formatted string with the deletion result
  */
-export async function deleteCalendarEvent(apiKey: string, args: DeleteEventArgs): Promise<string> {
+export async function deleteCalendarEvent(apiKey: string, args: DeleteEventArgs, context: ToolContext = {}): Promise<string> {
   try {
     // Validate required arguments
     if (!args.eventId) {
-      return "Error: Missing required argument (eventId)";
+      throw new InvalidInputError("Missing required argument (eventId)");
     }
     
-    // Initialize OAuth2 client
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials({ access_token: apiKey });
+    if (context.confirmationRequired) {
+      const event = await fetchCalendarEvent(apiKey, args.eventId, context);
+      const outcome = await requestConfirmation(context, formatDeleteConfirmation(event, args.sendNotifications !== false));
+      if (outcome === "unavailable") {
+        throw new NotConfirmedError("Deleting events requires confirmation, but this client does not support elicitation");
+      }
+      if (outcome === "declined") {
+        throw new NotConfirmedError("The user declined deleting the event");
+      }
+    }
     
-    // Initialize Google Calendar API client with authenticated OAuth client
-    const calendar = google.calendar({
-      version: 'v3',
-      auth: oauth2Client
-    });
+    const calendar = await createCalendarClient(apiKey, context);
     
     // Delete the event from primary calendar
     await calendar.events.delete({
@@ -67,16 +85,32 @@ export async function deleteCalendarEvent(apiKey: string, args: DeleteEventArgs)
       eventId: args.eventId,
       sendNotifications: args.sendNotifications !== false
     });
+    context.reportAffected?.({ eventId: args.eventId });
     
     return JSON.stringify({
       success: true,
       message: "Event successfully deleted"
     }, null, 2);
   } catch (error) {
-    console.error("Error deleting calendar event:", error);
-    return JSON.stringify({
-      success: false,
-      message: `Error deleting event: ${error instanceof Error ? error.message : String(error)}`
-    }, null, 2);
+    consoleLogger.error("Error deleting calendar event", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw toToolError(error, "Error deleting event");
   }
 }
+
+/**
+ * Describe an event for the confirmation asked before deleting it
+ */
+function formatDeleteConfirmation(event: CalendarEvent, notify: boolean): string {
+  const attendees = event.attendees?.map(attendee => attendee.email) ?? [];
+
+  return [
+    "Delete this calendar event?",
+    `Title: ${event.summary || '(no title)'}`,
+    ...(event.start?.dateTime ? [`Start: ${event.start.dateTime}${event.start.timeZone ? ` (${event.start.timeZone})` : ''}`] : []),
+    ...(event.end?.dateTime ? [`End: ${event.end.dateTime}`] : []),
+    ...(attendees.length ? [`Attendees: ${attendees.join(', ')}`] : []),
+    ...(attendees.length && notify ? ["Attendees will be notified of the cancellation."] : []),
+  ].join('\n');
+}
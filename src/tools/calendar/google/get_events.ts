@@ -1,5 +1,8 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { google } from "googleapis";
+import { toToolError } from "../../../utils/error_utils";
+import { createCalendarClient } from "../../../utils/google_utils";
+import { StructuredToolOutput, ToolContext } from "../../../types/index.js";
+import { consoleLogger } from "../../../utils/log_utils";
 
 // Type definitions
 export interface CalendarEvent {
@@ -35,6 +38,7 @@ export interface CalendarEvent {
 }
 
 export interface GetEventsArgs {
+  eventId?: string;
   timeMin?: string;
   timeMax?: string;
   maxResults?: number;
@@ -45,9 +49,18 @@ export interface GetEventsArgs {
 export const GET_CALENDAR_EVENTS_TOOL: Tool = {
   name: "google-calendar-get-events",
   description: "Retrieves calendar events from the user's Google Calendar within a specified time range.",
+  annotations: {
+    title: "Get Calendar Events",
+    readOnlyHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
+      eventId: {
+        type: "string",
+        description: "ID of a single event to retrieve. When set, the time range arguments are ignored."
+      },
       timeMin: {
         type: "string",
         description: "Start time in RFC3339 format (e.g. 2024-12-01T00:00:00Z). Defaults to current time if not specified."
@@ -69,6 +82,45 @@ export const GET_CALENDAR_EVENTS_TOOL: Tool = {
         default: false
       }
     }
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      events: {
+        type: "array",
+        description: "Events ordered by start time",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            summary: { type: "string" },
+            description: { type: "string" },
+            start: { type: "object", description: "Start as dateTime (timed events) or date (all-day events) with optional timeZone" },
+            end: { type: "object", description: "End as dateTime (timed events) or date (all-day events) with optional timeZone" },
+            status: { type: "string" },
+            creator: { type: "object" },
+            organizer: { type: "object" },
+            attendees: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  email: { type: "string" },
+                  displayName: { type: "string" },
+                  responseStatus: { type: "string" }
+                }
+              }
+            },
+            location: { type: "string" },
+            hangoutLink: { type: "string" },
+            conferenceData: { type: "object" },
+            recurringEventId: { type: "string" }
+          },
+          required: ["id"]
+        }
+      }
+    },
+    required: ["events"]
   }
 };
 
@@ -85,19 +137,21 @@ export function isGetEventsArgs(args: unknown): args is GetEventsArgs {
  * 
  * @param apiKey - Google Calendar API key
  * @param args - Arguments for fetching events
- * @returns Formatted string with events list
+ * @param context - Tool context Google token refreshes are reported to
+ * @returns Structured events list with a JSON text fallback
  */
-export async function getCalendarEvents(apiKey: string, args: GetEventsArgs): Promise<string> {
+export async function getCalendarEvents(apiKey: string, args: GetEventsArgs, context: ToolContext = {}): Promise<StructuredToolOutput> {
   try {
-    // Initialize OAuth2 client
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials({ access_token: apiKey });
+    // A single event was requested by ID
+    if (args.eventId) {
+      const event = await fetchCalendarEvent(apiKey, args.eventId, context);
+      return {
+        structuredContent: { events: [event] },
+        text: JSON.stringify(event, null, 2)
+      };
+    }
     
-    // Initialize Google Calendar API client with authenticated OAuth client
-    const calendar = google.calendar({
-      version: 'v3',
-      auth: oauth2Client
-    });
+    const calendar = await createCalendarClient(apiKey, context);
     
     // If no timeMin specified, use current time
     if (!args.timeMin) {
@@ -128,29 +182,63 @@ export async function getCalendarEvents(apiKey: string, args: GetEventsArgs): Pr
     const events = response.data.items || [];
     
     if (events.length === 0) {
-      return "No events found in the specified time range.";
+      return {
+        structuredContent: { events: [] },
+        text: "No events found in the specified time range."
+      };
     }
     
     // Process and format events
-    const processedEvents = events.map((event: any) => ({
-      id: event.id,
-      summary: event.summary,
-      description: event.description,
-      start: event.start,
-      end: event.end,
-      status: event.status,
-      creator: event.creator,
-      organizer: event.organizer,
-      attendees: event.attendees,
-      location: event.location,
-      hangoutLink: event.hangoutLink,
-      conferenceData: event.conferenceData,
-      recurringEventId: event.recurringEventId
-    }));
+    const processedEvents = events.map(toCalendarEvent);
     
-    return JSON.stringify(processedEvents, null, 2);
+    return {
+      structuredContent: { events: processedEvents },
+      text: JSON.stringify(processedEvents, null, 2)
+    };
   } catch (error) {
-    console.error("Error retrieving calendar events:", error);
-    return `Error retrieving calendar events: ${error instanceof Error ? error.message : String(error)}`;
+    consoleLogger.error("Error retrieving calendar events", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw toToolError(error, "Error retrieving calendar events");
   }
 }
+
+/**
+ * Fetch a single event from the primary calendar, throwing on API errors
+ * 
+ * @param apiKey - Google Calendar API key
+ * @param eventId - ID of the event
+ * @param context - Tool context Google token refreshes are reported to
+ * @returns The event
+ */
+export async function fetchCalendarEvent(apiKey: string, eventId: string, context: ToolContext = {}): Promise<CalendarEvent> {
+  const calendar = await createCalendarClient(apiKey, context);
+  
+  const response = await calendar.events.get({
+    calendarId: 'primary',
+    eventId
+  });
+  
+  return toCalendarEvent(response.data);
+}
+
+/**
+ * Pick the fields returned to the client from a Calendar API event
+ */
+function toCalendarEvent(event: any): CalendarEvent {
+  return {
+    id: event.id,
+    summary: event.summary,
+    description: event.description,
+    start: event.start,
+    end: event.end,
+    status: event.status,
+    creator: event.creator,
+    organizer: event.organizer,
+    attendees: event.attendees,
+    location: event.location,
+    hangoutLink: event.hangoutLink,
+    conferenceData: event.conferenceData,
+    recurringEventId: event.recurringEventId
+  };
+}
@@ -1,5 +1,8 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { google } from "googleapis";
+import { ToolContext } from "../../../types/index.js";
+import { InvalidInputError, NotFoundError, toToolError, UpstreamHttpError } from "../../../utils/error_utils";
+import { createCalendarClient } from "../../../utils/google_utils";
+import { consoleLogger } from "../../../utils/log_utils";
 
 // Type definitions
 export interface UpdateEventArgs {
@@ -18,6 +21,13 @@ export interface UpdateEventArgs {
 export const UPDATE_CALENDAR_EVENT_TOOL: Tool = {
   name: "google-calendar-update-event",
   description: "Updates an existing event in a specified Google Calendar.",
+  annotations: {
+    title: "Update Calendar Event",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -80,24 +90,17 @@ export function isUpdateEventArgs(args: unknown): args is UpdateEventArgs {
  * 
  * @param apiKey - Google Calendar API key
  * @param args - Arguments for updating the event
+ * @param context - Tool context used to report the updated event
  * @returns Formatted string with the updated event data
  */
-export async function updateCalendarEvent(apiKey: string, args: UpdateEventArgs): Promise<string> {
+export async function updateCalendarEvent(apiKey: string, args: UpdateEventArgs, context: ToolContext = {}): Promise<string> {
   try {
     // Validate required arguments
     if (!args.eventId) {
-      return "Error: Missing required argument (eventId)";
+      throw new InvalidInputError("Missing required argument (eventId)");
     }
     
-    // Initialize OAuth2 client
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials({ access_token: apiKey });
-    
-    // Initialize Google Calendar API client with authenticated OAuth client
-    const calendar = google.calendar({
-      version: 'v3',
-      auth: oauth2Client
-    });
+    const calendar = await createCalendarClient(apiKey, context);
     
     // First, get the existing event to preserve unmodified fields
     const existingEvent = await calendar.events.get({
@@ -106,7 +109,7 @@ export async function updateCalendarEvent(apiKey: string, args: UpdateEventArgs)
     });
     
     if (!existingEvent.data) {
-      return "Error: Could not find event with the provided ID";
+      throw new NotFoundError("Could not find event with the provided ID");
     }
     
     // Prepare updated event data
@@ -166,12 +169,15 @@ export async function updateCalendarEvent(apiKey: string, args: UpdateEventArgs)
     });
     
     if (!response.data) {
-      return "Error: Failed to update event";
+      throw new UpstreamHttpError("Failed to update event");
     }
+    context.reportAffected?.({ eventId: response.data.id ?? args.eventId });
     
     return JSON.stringify(response.data, null, 2);
   } catch (error) {
-    console.error("Error updating calendar event:", error);
-    return `Error updating calendar event: ${error instanceof Error ? error.message : String(error)}`;
+    consoleLogger.error("Error updating calendar event", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw toToolError(error, "Error updating calendar event");
   }
 }
@@ -2,11 +2,9 @@ import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { readS3File } from "../../file/s3/read_file";
 import { writeS3File } from "../../file/s3/write_to_file";
 import { applyDiff } from "../../../utils/editor_utils";
-
-// Simple debug logger
-function debugLog(message: string, ...args: any[]): void {
-  console.log(`[S3_REPLACE_DEBUG] ${message}`, ...args);
-}
+import { toToolError } from "../../../utils/error_utils";
+import { consoleLogger } from "../../../utils/log_utils";
+import { ToolContext } from "../../../types/index.js";
 
 // Type definitions
 export interface S3ReplaceInFileArgs {
@@ -53,6 +51,13 @@ function newName() {
 }
 >>>>>>> REPLACE
 \`\`\``,
+  annotations: {
+    title: "Edit S3 File",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -87,18 +92,20 @@ export function isS3ReplaceInFileArgs(args: unknown): args is S3ReplaceInFileArg
  * @param path - S3 file path
  * @param diff - Diff string with SEARCH/REPLACE blocks
  * @param apiKey - S3 API key
+ * @param context - Tool context providing the request logger
  * @returns Success message
  */
-export async function replaceInS3File(path: string, diff: string, apiKey: string): Promise<string> {
+export async function replaceInS3File(path: string, diff: string, apiKey: string, context: ToolContext = {}): Promise<string> {
+  const logger = context.logger ?? consoleLogger;
+
   try {
-    debugLog(`Starting replace operation on S3 file: ${path}`);
+    logger.debug("Starting replace operation on S3 file", { path });
     
     // Read current content
-    debugLog("Reading current content from S3");
-    const currentContent = await readS3File(path, apiKey);
+    const currentContent = await readS3File(path, apiKey, context);
     
     // Apply diff directly using the imported applyDiff
-    debugLog("Applying diff to content");
+    logger.debug("Applying diff to content", { path });
     // Process the entire diff at once (isFinal=true)
     const newContent = await applyDiff(diff, currentContent, true);
     
@@ -106,19 +113,18 @@ export async function replaceInS3File(path: string, diff: string, apiKey: string
     const modified = currentContent !== newContent;
     
     if (!modified) {
-      debugLog("No changes needed, content matches search patterns");
+      logger.info("No changes needed, content matches search patterns", { path });
       return `No changes applied to ${path} - content already matches the expected patterns`;
     }
     
     // Write modified content back
-    debugLog("Writing modified content back to S3");
-    const result = await writeS3File(path, newContent, apiKey);
+    await writeS3File(path, newContent, apiKey, undefined, context);
     
-    debugLog("Replace operation completed successfully");
+    logger.info("Replace operation completed successfully", { path });
     return `Successfully applied changes to ${path}`;
   } catch (error) {
-    const errorMessage = `Failed to replace content in S3 file: ${error instanceof Error ? error.message : String(error)}`;
-    debugLog(`ERROR: ${errorMessage}`);
-    throw new Error(errorMessage);
+    const toolError = toToolError(error, "Failed to replace content in S3 file");
+    logger.error(toolError.message, { path });
+    throw toolError;
   }
 }
@@ -1,11 +1,34 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { google } from "googleapis";
+import { ToolContext } from "../../../types/index.js";
+import { NotFoundError, toToolError } from "../../../utils/error_utils";
+import { createGmailClient } from "../../../utils/google_utils";
+import { summarizeEach, SummaryInstruction } from "../../../utils/sampling_utils";
 import { EmailDetail, EmailAttachment } from "./get_email.js";
+import { consoleLogger } from "../../../utils/log_utils";
+
+export type EmailSummaryMode = "none" | "one_line" | "brief";
+
+// Instructions for the summarize modes of the tool
+const EMAIL_SUMMARIES: Record<Exclude<EmailSummaryMode, "none">, SummaryInstruction> = {
+  one_line: {
+    prompt: "Summarize this email in one line of at most 25 words, covering who wants what.",
+    maxTokens: 100,
+  },
+  brief: {
+    prompt: "Summarize this email in up to three sentences, keeping requests, dates and amounts.",
+    maxTokens: 300,
+  },
+};
 
 // Tool definition
 export const BULK_GET_EMAILS_TOOL: Tool = {
   name: "google-gmail-bulk-get-emails",
-  description: "Retrieves multiple Gmail email messages by their IDs in a single request, including the full message bodies and attachment IDs.",
+  description: "Retrieves multiple Gmail email messages by their IDs in a single request, including the full message bodies and attachment IDs. Set summarize to replace each body with a summary written by the client's model.",
+  annotations: {
+    title: "Get Emails",
+    readOnlyHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -15,6 +38,12 @@ export const BULK_GET_EMAILS_TOOL: Tool = {
           type: "string"
         },
         description: "List of Gmail message IDs to retrieve"
+      },
+      summarize: {
+        type: "string",
+        enum: ["none", "one_line", "brief"],
+        description: "Replace each body with a one-line or brief summary, using the client's model. Falls back to full bodies when the client does not support sampling.",
+        default: "none"
       }
     },
     required: ["emailIds"]
@@ -24,12 +53,14 @@ export const BULK_GET_EMAILS_TOOL: Tool = {
 // Helper functions for type checking
 export function isBulkGetEmailsArgs(args: unknown): args is {
   emailIds: string[];
+  summarize?: EmailSummaryMode;
 } {
   return (
     typeof args === "object" &&
     args !== null &&
     Array.isArray((args as any).emailIds) &&
-    (args as any).emailIds.every((id: unknown) => typeof id === "string")
+    (args as any).emailIds.every((id: unknown) => typeof id === "string") &&
+    ((args as any).summarize === undefined || ["none", "one_line", "brief"].includes((args as any).summarize))
   );
 }
 
@@ -37,30 +68,26 @@ export function isBulkGetEmailsArgs(args: unknown): args is {
  * Retrieve multiple Gmail email messages by their IDs
  * 
  * @param apiKey - Google Gmail API key
- * @param args - Parameters containing the email IDs
+ * @param args - Parameters containing the email IDs and the summarize mode
+ * @param context - Tool context providing sampling for summaries and the request logger
  * @returns Formatted string with the email details
  */
 export async function bulkGetEmails(apiKey: string, args: {
   emailIds: string[];
-}): Promise<string> {
+  summarize?: EmailSummaryMode;
+}, context: ToolContext = {}): Promise<string> {
+  const logger = context.logger ?? consoleLogger;
   try {
-    const { emailIds } = args;
+    const { emailIds, summarize = "none" } = args;
     
     if (!emailIds.length) {
       return "No email IDs provided.";
     }
     
-    // Initialize OAuth2 client
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials({ access_token: apiKey });
-    
-    // Initialize Gmail API client
-    const gmail = google.gmail({
-      version: 'v1',
-      auth: oauth2Client
-    });
+    const gmail = await createGmailClient(apiKey, context);
     
     const results: EmailDetail[] = [];
+    let lastError: unknown;
     
     // Process each email ID
     for (const emailId of emailIds) {
@@ -72,7 +99,7 @@ export async function bulkGetEmails(apiKey: string, args: {
         });
         
         if (!response.data) {
-          console.error(`Failed to retrieve email with ID: ${emailId}`);
+          logger.error("Failed to retrieve email", { emailId });
           continue;
         }
         
@@ -99,22 +126,56 @@ export async function bulkGetEmails(apiKey: string, args: {
         email.attachments = attachments;
         results.push(email);
       } catch (error) {
-        console.error(`Error retrieving email ${emailId}:`, error);
+        logger.error("Error retrieving email", {
+          emailId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        lastError = error;
         // Continue with the next email ID
       }
     }
     
     if (results.length === 0) {
-      return "Failed to retrieve any emails from the provided IDs.";
+      // Surface the cause so e.g. an expired token is reported as an auth failure
+      throw lastError
+        ? toToolError(lastError, "Failed to retrieve any emails from the provided IDs")
+        : new NotFoundError("Failed to retrieve any emails from the provided IDs.");
+    }
+    
+    if (summarize !== "none") {
+      const summaries = await summarizeEach(results.map(formatEmailForSummary), EMAIL_SUMMARIES[summarize], context);
+      if (summaries) {
+        // Emails whose summary failed keep their body
+        return JSON.stringify(results.map((email, index) => {
+          const summary = summaries[index];
+          return summary === undefined ? email : { ...email, body: undefined, snippet: undefined, summary };
+        }), null, 2);
+      }
     }
     
     return JSON.stringify(results, null, 2);
   } catch (error) {
-    console.error("Error retrieving emails:", error);
-    return `Error retrieving emails: ${error instanceof Error ? error.message : String(error)}`;
+    logger.error("Error retrieving emails", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw toToolError(error, "Error retrieving emails");
   }
 }
 
+/**
+ * Render the parts of an email the summary is based on
+ */
+function formatEmailForSummary(email: EmailDetail): string {
+  return [
+    `From: ${email.from ?? ''}`,
+    `To: ${email.to ?? ''}`,
+    `Date: ${email.date ?? ''}`,
+    `Subject: ${email.subject ?? ''}`,
+    '',
+    email.body ?? email.snippet ?? '',
+  ].join('\n');
+}
+
 /**
  * Helper function to decode base64 data
  */
@@ -1,6 +1,10 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { google } from "googleapis";
-import { encodeBase64Url } from "./utils";
+import { ToolContext } from "../../../types/index.js";
+import { NotConfirmedError, toToolError } from "../../../utils/error_utils";
+import { createGmailClient } from "../../../utils/google_utils";
+import { requestConfirmation } from "../../../utils/confirmation_utils";
+import { DRAFT_FALLBACK_NOTE, encodeBase64Url, formatSendConfirmation } from "./utils";
+import { consoleLogger } from "../../../utils/log_utils";
 
 // Type definitions
 export interface DraftResult {
@@ -16,6 +20,13 @@ export interface DraftResult {
 export const CREATE_DRAFT_TOOL: Tool = {
   name: "google-gmail-create-draft",
   description: "Creates a draft email message in Gmail with specified recipient, subject, body, and optional CC recipients. You can also choose to send the email immediately instead of saving it as a draft.",
+  annotations: {
+    title: "Create Email Draft",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -72,9 +83,12 @@ export function isCreateDraftArgs(args: unknown): args is {
 
 /**
  * Create a draft email or send it immediately
+ * When confirmation is required the user is asked before sending, and the
+ * email is saved as a draft if the client cannot ask
  * 
  * @param apiKey - Google Gmail API key
  * @param args - Email creation parameters
+ * @param context - Tool context used to ask for confirmation and to report the message or draft id
  * @returns Formatted string with the result
  */
 export async function createDraft(apiKey: string, args: {
@@ -83,19 +97,24 @@ export async function createDraft(apiKey: string, args: {
   body: string;
   cc?: string[];
   send?: boolean;
-}): Promise<string> {
+}, context: ToolContext = {}): Promise<string> {
   try {
-    const { to, subject, body, cc, send = false } = args;
-    
-    // Initialize OAuth2 client
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials({ access_token: apiKey });
+    const { to, subject, body, cc } = args;
+    let send = args.send === true;
+    let note = "";
+
+    if (send && context.confirmationRequired) {
+      const outcome = await requestConfirmation(context, formatSendConfirmation({ to, cc, subject, body }));
+      if (outcome === "declined") {
+        throw new NotConfirmedError("The user declined sending the email");
+      }
+      if (outcome === "unavailable") {
+        send = false;
+        note = DRAFT_FALLBACK_NOTE;
+      }
+    }
     
-    // Initialize Gmail API client
-    const gmail = google.gmail({
-      version: 'v1',
-      auth: oauth2Client
-    });
+    const gmail = await createGmailClient(apiKey, context);
     
     // Create MIME message
     const message = createEmailMime(to, subject, body, cc);
@@ -113,6 +132,7 @@ export async function createDraft(apiKey: string, args: {
           raw: encodedMessage
         }
       });
+      context.reportAffected?.({ messageId: result.data.id, threadId: result.data.threadId });
       return JSON.stringify(result.data, null, 2);
     } else {
       // Save as draft
@@ -124,12 +144,15 @@ export async function createDraft(apiKey: string, args: {
           }
         }
       });
-      return JSON.stringify(result.data, null, 2);
+      context.reportAffected?.({ draftId: result.data.id, messageId: result.data.message?.id });
+      return note + JSON.stringify(result.data, null, 2);
     }
   } catch (error) {
-    console.error("Error creating draft:", error);
+    (context.logger ?? consoleLogger).error("Error creating draft", {
+      error: error instanceof Error ? error.message : String(error),
+    });
     const action = args.send ? "send" : "create draft";
-    return `Error trying to ${action} email: ${error instanceof Error ? error.message : String(error)}`;
+    throw toToolError(error, `Error trying to ${action} email`);
   }
 }
 
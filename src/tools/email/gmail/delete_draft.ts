@@ -1,10 +1,20 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { google } from "googleapis";
+import { ToolContext } from "../../../types/index.js";
+import { toToolError } from "../../../utils/error_utils";
+import { createGmailClient } from "../../../utils/google_utils";
+import { consoleLogger } from "../../../utils/log_utils";
 
 // Tool definition
 export const DELETE_DRAFT_TOOL: Tool = {
   name: "google-gmail-delete-draft",
   description: "Deletes a Gmail draft message by its ID. This action cannot be undone.",
+  annotations: {
+    title: "Delete Email Draft",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -33,33 +43,30 @@ export function isDeleteDraftArgs(args: unknown): args is {
  * 
  * @param apiKey - Google Gmail API key
  * @param args - Parameters containing the draft ID
+ * @param context - Tool context used to report the deleted draft
  * @returns Formatted string with the result
  */
 export async function deleteDraft(apiKey: string, args: {
   draftId: string;
-}): Promise<string> {
+}, context: ToolContext = {}): Promise<string> {
   try {
     const { draftId } = args;
     
-    // Initialize OAuth2 client
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials({ access_token: apiKey });
-    
-    // Initialize Gmail API client
-    const gmail = google.gmail({
-      version: 'v1',
-      auth: oauth2Client
-    });
+    const gmail = await createGmailClient(apiKey, context);
     
     // Delete the draft
     await gmail.users.drafts.delete({
       userId: 'me',
       id: draftId
     });
+    context.reportAffected?.({ draftId });
     
     return "Successfully deleted draft";
   } catch (error) {
-    console.error(`Error deleting draft ${args.draftId}:`, error);
-    return `Failed to delete draft with ID: ${args.draftId}. Error: ${error instanceof Error ? error.message : String(error)}`;
+    consoleLogger.error("Error deleting draft", {
+      draftId: args.draftId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw toToolError(error, `Failed to delete draft with ID: ${args.draftId}`);
   }
 }
@@ -1,5 +1,8 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { google } from "googleapis";
+import { ToolContext } from "../../../types/index.js";
+import { NotFoundError, toToolError } from "../../../utils/error_utils";
+import { createGmailClient } from "../../../utils/google_utils";
+import { consoleLogger } from "../../../utils/log_utils";
 
 // Type definitions
 export interface EmailDetail {
@@ -36,6 +39,11 @@ export interface EmailAttachment {
 export const GET_EMAIL_TOOL: Tool = {
   name: "google-gmail-get-email",
   description: "Retrieves a complete Gmail email message by its ID, including the full message body and attachment IDs.",
+  annotations: {
+    title: "Get Email",
+    readOnlyHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -64,61 +72,93 @@ export function isGetEmailArgs(args: unknown): args is {
  * 
  * @param apiKey - Google Gmail API key
  * @param args - Parameters containing the email ID
+ * @param context - Tool context Google token refreshes are reported to
  * @returns Formatted string with the email details
  */
 export async function getEmail(apiKey: string, args: {
   emailId: string;
-}): Promise<string> {
+}, context: ToolContext = {}): Promise<string> {
   try {
-    const { emailId } = args;
-    
-    // Initialize OAuth2 client
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials({ access_token: apiKey });
-    
-    // Initialize Gmail API client
-    const gmail = google.gmail({
-      version: 'v1',
-      auth: oauth2Client
-    });
-    
-    // Make API call to get the message
-    const response = await gmail.users.messages.get({
-      userId: 'me',
-      id: emailId
+    const email = await fetchEmail(apiKey, args.emailId, context);
+    return JSON.stringify(email, null, 2);
+  } catch (error) {
+    consoleLogger.error("Error retrieving email", {
+      error: error instanceof Error ? error.message : String(error),
     });
-    
-    if (!response.data) {
-      return `Failed to retrieve email with ID: ${emailId}`;
-    }
-    
-    // Parse the message
-    const email = parseMessageWithBody(response.data);
-    
-    // Extract attachments
-    const attachments: Record<string, EmailAttachment> = {};
-    
-    if (response.data.payload?.parts) {
-      for (const part of response.data.payload.parts) {
-        if (part.body?.attachmentId) {
-          const attachment: EmailAttachment = {
-            filename: part.filename || 'unknown',
-            mimeType: part.mimeType || 'application/octet-stream',
-            attachmentId: part.body.attachmentId,
-            partId: part.partId || '0'
-          };
-          attachments[part.partId || '0'] = attachment;
-        }
+    throw toToolError(error, "Error retrieving email");
+  }
+}
+
+/**
+ * Fetch a Gmail message and parse it, throwing on API errors
+ * 
+ * @param apiKey - Google Gmail API key
+ * @param emailId - ID of the message
+ * @param context - Tool context Google token refreshes are reported to
+ * @returns Parsed email including body and attachments
+ */
+export async function fetchEmail(apiKey: string, emailId: string, context: ToolContext = {}): Promise<EmailDetail> {
+  const gmail = await createGmailClient(apiKey, context);
+  
+  // Make API call to get the message
+  const response = await gmail.users.messages.get({
+    userId: 'me',
+    id: emailId
+  });
+  
+  if (!response.data) {
+    throw new NotFoundError(`Failed to retrieve email with ID: ${emailId}`);
+  }
+  
+  return parseMessageWithAttachments(response.data);
+}
+
+/**
+ * Fetch every message of a Gmail thread, throwing on API errors
+ * 
+ * @param apiKey - Google Gmail API key
+ * @param threadId - ID of the thread
+ * @param context - Tool context Google token refreshes are reported to
+ * @returns Parsed emails in thread order
+ */
+export async function fetchThread(apiKey: string, threadId: string, context: ToolContext = {}): Promise<EmailDetail[]> {
+  const gmail = await createGmailClient(apiKey, context);
+  
+  const response = await gmail.users.threads.get({
+    userId: 'me',
+    id: threadId,
+    format: 'full'
+  });
+  
+  return (response.data.messages || []).map(parseMessageWithAttachments);
+}
+
+/**
+ * Parse a Gmail message including the body and its attachment IDs
+ */
+function parseMessageWithAttachments(message: any): EmailDetail {
+  const email = parseMessageWithBody(message);
+  
+  // Extract attachments
+  const attachments: Record<string, EmailAttachment> = {};
+  
+  if (message.payload?.parts) {
+    for (const part of message.payload.parts) {
+      if (part.body?.attachmentId) {
+        const attachment: EmailAttachment = {
+          filename: part.filename || 'unknown',
+          mimeType: part.mimeType || 'application/octet-stream',
+          attachmentId: part.body.attachmentId,
+          partId: part.partId || '0'
+        };
+        attachments[part.partId || '0'] = attachment;
       }
     }
-    
-    email.attachments = attachments;
-    
-    return JSON.stringify(email, null, 2);
-  } catch (error) {
-    console.error("Error retrieving email:", error);
-    return `Error retrieving email: ${error instanceof Error ? error.message : String(error)}`;
   }
+  
+  email.attachments = attachments;
+  
+  return email;
 }
 
 /**
@@ -1,5 +1,8 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { google } from "googleapis";
+import { toToolError } from "../../../utils/error_utils";
+import { createGmailClient } from "../../../utils/google_utils";
+import { StructuredToolOutput, ToolContext } from "../../../types/index.js";
+import { consoleLogger } from "../../../utils/log_utils";
 
 // Type definitions
 export interface EmailMetadata {
@@ -26,6 +29,11 @@ export interface EmailMetadata {
 export const QUERY_EMAILS_TOOL: Tool = {
   name: "google-gmail-query-emails",
   description: "Query Gmail emails based on an optional search query. Returns emails in reverse chronological order (newest first).",
+  annotations: {
+    title: "Query Emails",
+    readOnlyHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -41,6 +49,39 @@ export const QUERY_EMAILS_TOOL: Tool = {
         default: 100
       }
     }
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      emails: {
+        type: "array",
+        description: "Matching emails, newest first",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            threadId: { type: "string" },
+            historyId: { type: "string" },
+            internalDate: { type: "string" },
+            sizeEstimate: { type: "number" },
+            labelIds: { type: "array", items: { type: "string" } },
+            snippet: { type: "string" },
+            subject: { type: "string" },
+            from: { type: "string" },
+            to: { type: "string" },
+            date: { type: "string" },
+            cc: { type: "string" },
+            bcc: { type: "string" },
+            message_id: { type: "string" },
+            in_reply_to: { type: "string" },
+            references: { type: "string" },
+            delivered_to: { type: "string" }
+          },
+          required: ["id", "threadId"]
+        }
+      }
+    },
+    required: ["emails"]
   }
 };
 
@@ -62,24 +103,17 @@ export function isQueryEmailsArgs(args: unknown): args is {
  * 
  * @param apiKey - Google Gmail API key
  * @param args - Query parameters
- * @returns Formatted string with email results
+ * @param context - Tool context Google token refreshes are reported to
+ * @returns Structured email results with a JSON text fallback
  */
 export async function queryEmails(apiKey: string, args: {
   query?: string;
   maxResults?: number;
-}): Promise<string> {
+}, context: ToolContext = {}): Promise<StructuredToolOutput> {
   try {
     const { query = "", maxResults = 100 } = args;
     
-    // Initialize OAuth2 client
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials({ access_token: apiKey });
-    
-    // Initialize Gmail API client
-    const gmail = google.gmail({
-      version: 'v1',
-      auth: oauth2Client
-    });
+    const gmail = await createGmailClient(apiKey, context);
     
     // Make API call to list messages
     const response = await gmail.users.messages.list({
@@ -89,7 +123,10 @@ export async function queryEmails(apiKey: string, args: {
     });
     
     if (!response.data.messages || response.data.messages.length === 0) {
-      return "No emails found matching the query.";
+      return {
+        structuredContent: { emails: [] },
+        text: "No emails found matching the query."
+      };
     }
     
     // Fetch full details for each message
@@ -105,10 +142,15 @@ export async function queryEmails(apiKey: string, args: {
       emails.push(email);
     }
     
-    return JSON.stringify(emails, null, 2);
+    return {
+      structuredContent: { emails },
+      text: JSON.stringify(emails, null, 2)
+    };
   } catch (error) {
-    console.error("Error querying emails:", error);
-    return `Error querying emails: ${error instanceof Error ? error.message : String(error)}`;
+    consoleLogger.error("Error querying emails", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw toToolError(error, "Error querying emails");
   }
 }
 
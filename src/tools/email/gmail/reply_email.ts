@@ -1,12 +1,23 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { google } from "googleapis";
+import { ToolContext } from "../../../types/index.js";
+import { NotConfirmedError, NotFoundError, toToolError } from "../../../utils/error_utils";
+import { createGmailClient } from "../../../utils/google_utils";
+import { requestConfirmation } from "../../../utils/confirmation_utils";
 import { EmailDetail } from "./get_email.js";
-import { encodeBase64Url } from "./utils.js";
+import { DRAFT_FALLBACK_NOTE, encodeBase64Url, formatSendConfirmation } from "./utils.js";
+import { consoleLogger } from "../../../utils/log_utils";
 
 // Tool definition
 export const REPLY_EMAIL_TOOL: Tool = {
   name: "google-gmail-reply-email",
   description: "Creates a reply to an existing Gmail email message and either sends it or saves as draft.",
+  annotations: {
+    title: "Reply to Email",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -56,9 +67,12 @@ export function isReplyEmailArgs(args: unknown): args is {
 
 /**
  * Create a reply to an existing Gmail email message
+ * When confirmation is required the user is asked before sending, and the
+ * reply is saved as a draft if the client cannot ask
  * 
  * @param apiKey - Google Gmail API key
  * @param args - Parameters for the reply
+ * @param context - Tool context used to ask for confirmation and to report the message or draft id
  * @returns Formatted string with the result
  */
 export async function replyEmail(apiKey: string, args: {
@@ -66,19 +80,13 @@ export async function replyEmail(apiKey: string, args: {
   replyBody: string;
   send?: boolean;
   cc?: string[];
-}): Promise<string> {
+}, context: ToolContext = {}): Promise<string> {
   try {
-    const { originalMessageId, replyBody, send = false, cc } = args;
+    const { originalMessageId, replyBody, cc } = args;
+    let send = args.send === true;
+    let note = "";
     
-    // Initialize OAuth2 client
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials({ access_token: apiKey });
-    
-    // Initialize Gmail API client
-    const gmail = google.gmail({
-      version: 'v1',
-      auth: oauth2Client
-    });
+    const gmail = await createGmailClient(apiKey, context);
     
     // Get the original message
     const response = await gmail.users.messages.get({
@@ -87,12 +95,28 @@ export async function replyEmail(apiKey: string, args: {
     });
     
     if (!response.data) {
-      return `Failed to retrieve original message with ID: ${originalMessageId}`;
+      throw new NotFoundError(`Failed to retrieve original message with ID: ${originalMessageId}`);
     }
     
     // Parse the original message
     const originalMessage = parseMessageWithHeaders(response.data);
     
+    if (send && context.confirmationRequired) {
+      const outcome = await requestConfirmation(context, formatSendConfirmation({
+        to: originalMessage.from ? extractEmailAddress(originalMessage.from) : '',
+        cc,
+        subject: replySubject(originalMessage.subject),
+        body: replyBody,
+      }));
+      if (outcome === "declined") {
+        throw new NotConfirmedError("The user declined sending the reply");
+      }
+      if (outcome === "unavailable") {
+        send = false;
+        note = DRAFT_FALLBACK_NOTE;
+      }
+    }
+    
     // Create reply message
     const replyMime = createReplyMime(originalMessage, replyBody, cc);
     
@@ -110,6 +134,7 @@ export async function replyEmail(apiKey: string, args: {
           threadId: originalMessage.threadId
         }
       });
+      context.reportAffected?.({ messageId: result.data.id, threadId: result.data.threadId });
       return JSON.stringify(result.data, null, 2);
     } else {
       // Save as draft
@@ -122,12 +147,15 @@ export async function replyEmail(apiKey: string, args: {
           }
         }
       });
-      return JSON.stringify(result.data, null, 2);
+      context.reportAffected?.({ draftId: result.data.id, messageId: result.data.message?.id });
+      return note + JSON.stringify(result.data, null, 2);
     }
   } catch (error) {
-    console.error("Error creating reply:", error);
+    (context.logger ?? consoleLogger).error("Error creating reply", {
+      error: error instanceof Error ? error.message : String(error),
+    });
     const action = args.send ? "sending" : "drafting";
-    return `Error ${action} reply: ${error instanceof Error ? error.message : String(error)}`;
+    throw toToolError(error, `Error ${action} reply`);
   }
 }
 
@@ -178,6 +206,14 @@ function extractEmailAddress(formattedEmail: string): string {
   return formattedEmail;
 }
 
+/**
+ * Format the subject of a reply, adding Re: if needed
+ */
+function replySubject(originalSubject?: string): string {
+  const subject = originalSubject || '';
+  return subject.toLowerCase().startsWith('re:') ? subject : `Re: ${subject}`;
+}
+
 /**
  * Create a MIME message for the reply
  */
@@ -189,11 +225,7 @@ function createReplyMime(
   // Determine recipient (the original sender)
   const to = originalMessage.from ? extractEmailAddress(originalMessage.from) : '';
   
-  // Format subject (add Re: if needed)
-  let subject = originalMessage.subject || '';
-  if (!subject.toLowerCase().startsWith('re:')) {
-    subject = `Re: ${subject}`;
-  }
+  const subject = replySubject(originalMessage.subject);
 
   // Format original information for quoting
   const originalDate = originalMessage.date || '';
@@ -15,3 +15,30 @@ export function encodeBase64Url(text: string): string {
     .replace(/\//g, '_')
     .replace(/=+$/, '');
 }
+
+// Characters of the body shown when asking the user to confirm sending
+const PREVIEW_BODY_LENGTH = 500;
+
+// Prepended to the result when sending fell back to saving a draft
+export const DRAFT_FALLBACK_NOTE = "This client cannot ask for confirmation, so the email was saved as a draft instead of being sent.\n\n";
+
+/**
+ * Describe an email for the confirmation asked before sending it
+ *
+ * @param email - Recipients, subject and body of the email
+ * @returns Message shown to the user
+ */
+export function formatSendConfirmation(email: { to: string; cc?: string[]; subject: string; body: string }): string {
+  const body = email.body.length > PREVIEW_BODY_LENGTH
+    ? `${email.body.substring(0, PREVIEW_BODY_LENGTH)}…`
+    : email.body;
+
+  return [
+    "Send this email?",
+    `To: ${email.to}`,
+    ...(email.cc?.length ? [`Cc: ${email.cc.join(', ')}`] : []),
+    `Subject: ${email.subject}`,
+    '',
+    body,
+  ].join('\n');
+}
@@ -1,13 +1,35 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { Env } from "../../../types/index.js";
+import { Env, ToolContext } from "../../../types/index.js";
 import { bv2av } from "../../../utils/bilibili_utils.js";
+import { AuthError, NotFoundError, ToolError, UpstreamHttpError, upstreamError } from "../../../utils/error_utils";
+import { summarizeEach, SummaryInstruction } from "../../../utils/sampling_utils";
+import { fetchUpstream } from "../../../utils/upstream_utils";
+import { consoleLogger } from "../../../utils/log_utils";
 
 // Type definitions
+export type SubtitleSummaryMode = "none" | "chapters" | "overall";
+
 export interface BilibiliFetchParams {
   bvid: string;
   p?: number; // Page number for multi-part videos (defaults to 1)
+  summarize?: SubtitleSummaryMode;
 }
 
+// Length of the chapters subtitles are split into for per-chapter summaries
+const CHAPTER_SECONDS = 5 * 60;
+
+// Instructions for the summarize modes of the tool
+const SUBTITLE_SUMMARIES: Record<Exclude<SubtitleSummaryMode, "none">, SummaryInstruction> = {
+  chapters: {
+    prompt: "These are the subtitles of one chapter of a video. Summarize what is said in two to four sentences.",
+    maxTokens: 300,
+  },
+  overall: {
+    prompt: "These are the subtitles of a video. Summarize the video in a short paragraph followed by its key points as a bulleted list.",
+    maxTokens: 1000,
+  },
+};
+
 interface BilibiliVideoResponse {
   code: number;
   message: string;
@@ -95,7 +117,12 @@ interface BilibiliSubtitleContent {
 // Tool definition
 export const BILIBILI_FETCH_TOOL: Tool = {
   name: "bilibili-subtitle-fetch",
-  description: "Fetch subtitles from a Bilibili video using BV number.",
+  description: "Fetch subtitles from a Bilibili video using BV number. Set summarize to get summaries written by the client's model instead of the full subtitles.",
+  annotations: {
+    title: "Fetch Bilibili Subtitles",
+    readOnlyHint: true,
+    openWorldHint: true
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -106,6 +133,12 @@ export const BILIBILI_FETCH_TOOL: Tool = {
       p: {
         type: "number",
         description: "Page number for multi-part videos (e.g., 2 for ?p=2, defaults to 1 if not specified)",
+      },
+      summarize: {
+        type: "string",
+        enum: ["none", "chapters", "overall"],
+        description: "Summarize the subtitles per 5-minute chapter or for the whole video, using the client's model. Falls back to full subtitles when the client does not support sampling.",
+        default: "none"
       }
     },
     required: ["bvid"],
@@ -118,7 +151,9 @@ export function isBilibiliFetchArgs(args: unknown): args is BilibiliFetchParams
     typeof args === "object" &&
     args !== null &&
     "bvid" in args &&
-    typeof (args as { bvid: unknown }).bvid === "string"
+    typeof (args as { bvid: unknown }).bvid === "string" &&
+    ((args as { summarize?: unknown }).summarize === undefined ||
+      ["none", "chapters", "overall"].includes((args as { summarize?: unknown }).summarize as string))
   );
 }
 
@@ -127,9 +162,9 @@ export function isBilibiliFetchArgs(args: unknown): args is BilibiliFetchParams
 /**
  * Common fetch method for Bilibili API requests using Cloudflare browser rendering API
  */
-async function bilibiliFetch(url: string, apiKey: string, env?: Env): Promise<any> {
+async function bilibiliFetch(url: string, apiKey: string, env: Env | undefined, context: ToolContext): Promise<any> {
   if (!env?.CLOUDFLARE_BROWSER_RENDER_API_TOKEN) {
-    throw new Error('Cloudflare API token not available');
+    throw new ToolError('Cloudflare API token not available');
   }
 
   // Try to parse as JSON first (cookie.json format), then fall back to string format (cookies.txt)
@@ -158,7 +193,8 @@ async function bilibiliFetch(url: string, apiKey: string, env?: Env): Promise<an
     }).filter(cookie => cookie.name && cookie.value);
   }
 
-  const response = await fetch(
+  const response = await fetchUpstream(
+    "cloudflare",
     `https://api.cloudflare.com/client/v4/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/browser-rendering/markdown`,
     {
       method: "POST",
@@ -170,20 +206,24 @@ async function bilibiliFetch(url: string, apiKey: string, env?: Env): Promise<an
         url: url,
         cookies: cookiesArray,
       }),
-    }
+    },
+    context
   );
 
   if (!response.ok) {
-    throw new Error(`Cloudflare API error: ${response.status} ${response.statusText}`);
+    throw await upstreamError('Cloudflare', response);
   }
 
   const data = await response.json() as { success: boolean; result: string; errors?: Array<{ message: string }> };
   
   if (!data.success) {
-    throw new Error(`Cloudflare API error: ${data.errors?.[0]?.message || "Unknown error"}`);
+    throw new UpstreamHttpError(`Cloudflare API error: ${data.errors?.[0]?.message || "Unknown error"}`);
   }
 
-  console.log(`preview response from ${url}:`, data.result.slice(0, 200).replace(/\n/g, ' ').trim());
+  (context.logger ?? consoleLogger).debug("Bilibili response", {
+    url,
+    preview: data.result.slice(0, 200).replace(/\n/g, ' ').trim(),
+  });
   
   return JSON.parse(data.result);
 }
@@ -191,79 +231,157 @@ async function bilibiliFetch(url: string, apiKey: string, env?: Env): Promise<an
 /**
  * Fetches subtitles from a Bilibili video using Cloudflare browser rendering API
  * 
- * @param params - The fetch parameters (BV ID)
+ * @param params - The fetch parameters (BV ID, page and summarize mode)
  * @param apiKey - API key as JSON string containing cookies array
  * @param env - Environment containing Cloudflare credentials
+ * @param context - Tool context used to report progress for each step, to cancel the fetches and to sample summaries
  * @returns Subtitle content from the video
  */
 export async function performBilibiliFetch(
   params: BilibiliFetchParams,
   apiKey: string,
-  env?: Env
+  env?: Env,
+  context: ToolContext = {}
 ): Promise<string> {
   if (!apiKey) {
-    return "Error: API key not available";
+    throw new AuthError("API key not available");
   }
 
   if (!env?.CLOUDFLARE_BROWSER_RENDER_API_TOKEN) {
-    return "Error: Cloudflare API token not available";
+    throw new ToolError("Cloudflare API token not available");
   }
 
-  try {
-    // Convert BV to AV
-    const aid = bv2av(params.bvid);
-    console.log(`BV ${params.bvid} converted to AV ${aid}`);
-    
-    // Step 1: Get video info and CID
-    const videoInfoUrl = `https://api.bilibili.com/x/web-interface/view?aid=${aid}`;
-    const videoInfo = await bilibiliFetch(videoInfoUrl, apiKey, env) as BilibiliVideoResponse;
-    
-    if (videoInfo.code !== 0) {
-      throw new Error(`Bilibili API error: ${videoInfo.message}`);
-    }
+  const logger = context.logger ?? consoleLogger;
 
-    // Get CID for the specified page (default to page 1)
-    const pageNum = params.p || 1;
-    const targetPage = videoInfo.data.pages.find(page => page.page === pageNum);
-    
-    if (!targetPage) {
-      throw new Error(`Page ${pageNum} not found. Available pages: ${videoInfo.data.pages.map(p => p.page).join(', ')}`);
-    }
-    
-    const cid = targetPage.cid;
-    const title = videoInfo.data.title;
-    const partTitle = targetPage.part;
-    console.log(`Step 1 completed: Got video info - Title: ${title}, CID: ${cid}`);
-
-    // Step 2: Get subtitle info
-    const subtitleInfoUrl = `https://api.bilibili.com/x/player/wbi/v2?aid=${aid}&cid=${cid}`;
-    const subtitleInfo = await bilibiliFetch(subtitleInfoUrl, apiKey, env) as BilibiliSubtitleResponse;
-    
-    if (subtitleInfo.code !== 0) {
-      throw new Error(`Subtitle API error: ${subtitleInfo.message}`);
-    }
+  // Convert BV to AV
+  const aid = bv2av(params.bvid);
+  logger.debug("Converted BV to AV", { bvid: params.bvid, aid });
+  
+  // Step 1: Get video info and CID
+  const videoInfoUrl = `https://api.bilibili.com/x/web-interface/view?aid=${aid}`;
+  const videoInfo = await bilibiliFetch(videoInfoUrl, apiKey, env, context) as BilibiliVideoResponse;
+  
+  if (videoInfo.code !== 0) {
+    throw bilibiliError(videoInfo.code, `Bilibili API error: ${videoInfo.message}`);
+  }
+
+  // Get CID for the specified page (default to page 1)
+  const pageNum = params.p || 1;
+  const summarize = params.summarize ?? "none";
+  const totalSteps = summarize === "none" ? 3 : 4;
+  const targetPage = videoInfo.data.pages.find(page => page.page === pageNum);
+  
+  if (!targetPage) {
+    throw new NotFoundError(`Page ${pageNum} not found. Available pages: ${videoInfo.data.pages.map(p => p.page).join(', ')}`);
+  }
+  
+  const cid = targetPage.cid;
+  const title = videoInfo.data.title;
+  const partTitle = targetPage.part;
+  logger.debug("Got video info", { title, cid });
+  context.onProgress?.(1, totalSteps, `Got video info: ${title}`);
+
+  // Step 2: Get subtitle info
+  const subtitleInfoUrl = `https://api.bilibili.com/x/player/wbi/v2?aid=${aid}&cid=${cid}`;
+  const subtitleInfo = await bilibiliFetch(subtitleInfoUrl, apiKey, env, context) as BilibiliSubtitleResponse;
+  
+  if (subtitleInfo.code !== 0) {
+    throw bilibiliError(subtitleInfo.code, `Subtitle API error: ${subtitleInfo.message}`);
+  }
+
+  const subtitles = subtitleInfo.data?.subtitle?.subtitles;
+  
+  if (!subtitles || subtitles.length === 0) {
+    logger.debug("No subtitles available", { aid, cid });
+    context.onProgress?.(totalSteps, totalSteps, "No subtitles available");
+    return formatBilibiliResponse(null, params.bvid, title, "No subtitles available for this video", partTitle, pageNum);
+  }
 
-    const subtitles = subtitleInfo.data?.subtitle?.subtitles;
-    
-    if (!subtitles || subtitles.length === 0) {
-      console.log(`Step 2 completed: No subtitles available`);
-      return formatBilibiliResponse(null, params.bvid, title, "No subtitles available for this video", partTitle, pageNum);
+  // Get the first available subtitle (usually Chinese)
+  const subtitleUrl = `https:${subtitles[0].subtitle_url}`;
+  const subtitleLang = subtitles[0].lan_doc;
+  logger.debug("Found subtitles", { count: subtitles.length, language: subtitleLang });
+  context.onProgress?.(2, totalSteps, `Found ${subtitles.length} subtitle(s), using ${subtitleLang}`);
+
+  // Step 3: Fetch actual subtitle content
+  const subtitleData = await bilibiliFetch(subtitleUrl, apiKey, env, context) as BilibiliSubtitleContent;
+  logger.debug("Retrieved subtitle entries", { count: subtitleData.body?.length || 0 });
+  context.onProgress?.(3, totalSteps, `Retrieved ${subtitleData.body?.length || 0} subtitle entries`);
+  
+  if (summarize !== "none" && subtitleData.body?.length) {
+    const summary = await summarizeSubtitles(subtitleData.body, summarize, context);
+    context.onProgress?.(4, totalSteps, summary ? "Summarized subtitles" : "Summaries unavailable, returning full subtitles");
+    if (summary) {
+      return formatBilibiliResponse(subtitleData, params.bvid, title, `Summary of subtitles (${subtitleLang})`, partTitle, pageNum, summary);
     }
+  }
+  
+  return formatBilibiliResponse(subtitleData, params.bvid, title, `Subtitles (${subtitleLang})`, partTitle, pageNum);
+
+}
+
+/**
+ * Maps a Bilibili API error code to a typed error
+ * -101 means not logged in, -404 and 62002 mean the video does not exist or is hidden
+ */
+function bilibiliError(code: number, message: string): ToolError {
+  if (code === -101) {
+    return new AuthError(message);
+  }
+  if (code === -404 || code === 62002) {
+    return new NotFoundError(message);
+  }
+  return new UpstreamHttpError(message);
+}
 
-    // Get the first available subtitle (usually Chinese)
-    const subtitleUrl = `https:${subtitles[0].subtitle_url}`;
-    const subtitleLang = subtitles[0].lan_doc;
-    console.log(`Step 2 completed: Found ${subtitles.length} subtitle(s), using ${subtitleLang}`);
+/**
+ * Summarizes subtitles per chapter or for the whole video
+ * Chapters whose summary fails keep their subtitle lines
+ * 
+ * @param entries - Subtitle entries
+ * @param mode - Summarize mode
+ * @param context - Tool context providing sampling
+ * @returns Summary lines, or undefined if the client does not support sampling
+ */
+async function summarizeSubtitles(
+  entries: BilibiliSubtitleContent["body"],
+  mode: Exclude<SubtitleSummaryMode, "none">,
+  context: ToolContext
+): Promise<string[] | undefined> {
+  const chapters = mode === "chapters" ? splitChapters(entries) : [entries];
+  const summaries = await summarizeEach(
+    chapters.map(chapter => chapter.map(item => item.content).join("\n")),
+    SUBTITLE_SUMMARIES[mode],
+    context
+  );
+  if (!summaries) {
+    return undefined;
+  }
 
-    // Step 3: Fetch actual subtitle content
-    const subtitleData = await bilibiliFetch(subtitleUrl, apiKey, env) as BilibiliSubtitleContent;
-    console.log(`Step 3 completed: Retrieved ${subtitleData.body?.length || 0} subtitle entries`);
-    
-    return formatBilibiliResponse(subtitleData, params.bvid, title, `Subtitles (${subtitleLang})`, partTitle, pageNum);
+  return chapters.flatMap((chapter, index) => {
+    const summary = summaries[index];
+    if (summary === undefined) {
+      return chapter.map(formatSubtitleLine);
+    }
+    if (mode === "overall") {
+      return [summary];
+    }
+    const startTime = formatTime(chapter[0].from);
+    const endTime = formatTime(chapter[chapter.length - 1].to);
+    return [`[${startTime} --> ${endTime}] ${summary}`];
+  });
+}
 
-  } catch (error) {
-    return `Error: ${error instanceof Error ? error.message : "Unknown error"}`;
+/**
+ * Groups subtitle entries into chapters of CHAPTER_SECONDS
+ */
+function splitChapters(entries: BilibiliSubtitleContent["body"]): Array<BilibiliSubtitleContent["body"]> {
+  const chapters = new Map<number, BilibiliSubtitleContent["body"]>();
+  for (const item of entries) {
+    const index = Math.floor(item.from / CHAPTER_SECONDS);
+    chapters.set(index, [...(chapters.get(index) ?? []), item]);
   }
+  return [...chapters.values()];
 }
 
 /**
@@ -273,6 +391,7 @@ export async function performBilibiliFetch(
  * @param bvid - The original BV ID
  * @param title - Video title
  * @param status - Status message
+ * @param summary - Summary lines shown instead of the subtitles
  * @returns Formatted string with video info and subtitles
  */
 function formatBilibiliResponse(
@@ -281,7 +400,8 @@ function formatBilibiliResponse(
   title: string,
   status: string,
   partTitle?: string,
-  pageNum?: number
+  pageNum?: number,
+  summary?: string[]
 ): string {
   const output: string[] = [];
 
@@ -296,21 +416,27 @@ function formatBilibiliResponse(
   }
   output.push(`Status: ${status}\n`);
 
-  // Add subtitle content if available
-  if (subtitleData && subtitleData.body) {
+  // Add the summary or the subtitle content if available
+  if (summary) {
+    output.push("Summary:");
+    output.push("=" + "=".repeat(50));
+    output.push(...summary);
+  } else if (subtitleData && subtitleData.body) {
     output.push("Subtitles:");
     output.push("=" + "=".repeat(50));
-    
-    for (const item of subtitleData.body) {
-      const startTime = formatTime(item.from);
-      const endTime = formatTime(item.to);
-      output.push(`[${startTime} --> ${endTime}] ${item.content}`);
-    }
+    output.push(...subtitleData.body.map(formatSubtitleLine));
   }
 
   return output.join("\n");
 }
 
+/**
+ * Format a subtitle entry with its time range
+ */
+function formatSubtitleLine(item: BilibiliSubtitleContent["body"][number]): string {
+  return `[${formatTime(item.from)} --> ${formatTime(item.to)}] ${item.content}`;
+}
+
 /**
  * Convert seconds to timestamp format
  */
@@ -1,5 +1,7 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { Env } from "../../../types/index.js";
+import { Env, ToolContext } from "../../../types/index.js";
+import { ToolError, UpstreamHttpError, upstreamError } from "../../../utils/error_utils";
+import { fetchUpstream } from "../../../utils/upstream_utils";
 
 // Type definitions
 export interface CloudflareFetchParams {
@@ -10,6 +12,11 @@ export interface CloudflareFetchParams {
 export const CLOUDFLARE_FETCH_TOOL: Tool = {
   name: "fetch",
   description: "Fetch text content from a webpage using Cloudflare Browser Rendering API.",
+  annotations: {
+    title: "Fetch Web Page",
+    readOnlyHint: true,
+    openWorldHint: true
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -37,46 +44,46 @@ export function isCloudfareFetchArgs(args: unknown): args is CloudflareFetchPara
  * 
  * @param params - The fetch parameters (just URL)
  * @param env - Cloudflare Worker environment
+ * @param context - Tool context, its signal aborts the request when the call is cancelled
  * @returns Text content from the webpage including the source URL
  */
 export async function performCloudfareFetch(
   params: CloudflareFetchParams,
-  env?: Env
+  env?: Env,
+  context: ToolContext = {}
 ): Promise<string> {
   if (!env?.CLOUDFLARE_BROWSER_RENDER_API_TOKEN) {
-    return "Error: Cloudflare API token not available";
+    throw new ToolError("Cloudflare API token not available");
   }
 
-  try {
-    const response = await fetch(
-      `https://api.cloudflare.com/client/v4/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/browser-rendering/markdown`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${env.CLOUDFLARE_BROWSER_RENDER_API_TOKEN}`,
-        },
-        body: JSON.stringify({
-          url: params.url,
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Cloudflare API error: ${response.status} ${response.statusText}`);
-    }
+  const response = await fetchUpstream(
+    "cloudflare",
+    `https://api.cloudflare.com/client/v4/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/browser-rendering/markdown`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${env.CLOUDFLARE_BROWSER_RENDER_API_TOKEN}`,
+      },
+      body: JSON.stringify({
+        url: params.url,
+      }),
+    },
+    context
+  );
 
-    const data = await response.json() as { success: boolean; result: string; errors?: Array<{ message: string }> };
-    
-    if (!data.success) {
-      throw new Error(`Cloudflare API error: ${data.errors?.[0]?.message || "Unknown error"}`);
-    }
+  if (!response.ok) {
+    throw await upstreamError('Cloudflare', response);
+  }
 
-    // Format the response with the URL included
-    return formatCloudflareResponse(data.result, params.url);
-  } catch (error) {
-    return `Error: ${error instanceof Error ? error.message : "Unknown error"}`;
+  const data = await response.json() as { success: boolean; result: string; errors?: Array<{ message: string }> };
+  
+  if (!data.success) {
+    throw new UpstreamHttpError(`Cloudflare API error: ${data.errors?.[0]?.message || "Unknown error"}`);
   }
+
+  // Format the response with the URL included
+  return formatCloudflareResponse(data.result, params.url);
 }
 
 /**
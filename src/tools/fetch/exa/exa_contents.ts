@@ -1,4 +1,8 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ToolContext } from "../../../types/index.js";
+import { toToolError, upstreamError } from "../../../utils/error_utils";
+import { summarizeEach, SummaryInstruction } from "../../../utils/sampling_utils";
+import { fetchUpstream } from "../../../utils/upstream_utils";
 
 // Type definitions
 export interface ExaContentsResult {
@@ -42,6 +46,20 @@ export interface ExaContentsResponse {
   };
 }
 
+export type PageSummaryMode = "none" | "brief" | "key_points";
+
+// Instructions for the summarize modes of the tool
+const PAGE_SUMMARIES: Record<Exclude<PageSummaryMode, "none">, SummaryInstruction> = {
+  brief: {
+    prompt: "Summarize this web page in one paragraph, keeping names, numbers and dates.",
+    maxTokens: 400,
+  },
+  key_points: {
+    prompt: "List the key points of this web page as up to eight short bullet points.",
+    maxTokens: 600,
+  },
+};
+
 // Tool definition
 export const CONTENTS_TOOL: Tool = {
   name: "exa-contents",
@@ -49,7 +67,13 @@ export const CONTENTS_TOOL: Tool = {
     "Retrieve the actual content from web pages using Exa's content retrieval API. " +
     "This tool is used to get detailed information including full text, highlights, and summaries from URLs " +
     "previously found via the exa-search tool. Useful for extracting specific information from webpages " +
-    "for analysis, research, and knowledge retrieval.",
+    "for analysis, research, and knowledge retrieval. Set summarize to replace each page's text with a " +
+    "summary written by the client's model.",
+  annotations: {
+    title: "Get Web Page Contents",
+    readOnlyHint: true,
+    openWorldHint: true
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -88,6 +112,12 @@ export const CONTENTS_TOOL: Tool = {
         type: "boolean",
         description: "If true, formats the content results into a context string ready for LLMs.",
         default: true
+      },
+      summarize: {
+        type: "string",
+        enum: ["none", "brief", "key_points"],
+        description: "Replace the text of each page with a paragraph or key points, using the client's model. Falls back to the full content when the client does not support sampling.",
+        default: "none"
       }
     },
     required: ["urls"]
@@ -103,13 +133,16 @@ export function isExaContentsArgs(args: unknown): args is {
   livecrawl?: "never" | "fallback" | "always" | "preferred";
   subpages?: number;
   context?: boolean;
+  summarize?: PageSummaryMode;
 } {
   return (
     typeof args === "object" &&
     args !== null &&
     "urls" in args &&
     Array.isArray((args as { urls: string[] }).urls) &&
-    (args as { urls: string[] }).urls.every(url => typeof url === "string")
+    (args as { urls: string[] }).urls.every(url => typeof url === "string") &&
+    ((args as { summarize?: unknown }).summarize === undefined ||
+      ["none", "brief", "key_points"].includes((args as { summarize?: unknown }).summarize as string))
   );
 }
 
@@ -119,7 +152,9 @@ export function isExaContentsArgs(args: unknown): args is {
  * @param urls - Array of URLs to crawl and extract content from
  * @param params - Additional content retrieval parameters
  * @param apiKey - Exa API key
- * @returns Original JSON response as a string
+ * @param context - Tool context, its signal aborts the request when the call is cancelled
+ *   and its sampling callback writes the summaries
+ * @returns Original JSON response as a string, with summarized page texts if requested
  */
 export async function retrieveExaContents(
   urls: string[], 
@@ -130,8 +165,10 @@ export async function retrieveExaContents(
     livecrawl?: "never" | "fallback" | "always" | "preferred";
     subpages?: number;
     context?: boolean;
+    summarize?: PageSummaryMode;
   } = {}, 
-  apiKey: string
+  apiKey: string,
+  context: ToolContext = {}
 ): Promise<string> {
   try {
     // Make a direct HTTP request to Exa API
@@ -168,7 +205,7 @@ export async function retrieveExaContents(
     }
     
     // Execute the content retrieval with fetch API
-    const response = await fetch(url, {
+    const response = await fetchUpstream('exa', url, {
       method: 'POST',
       headers: {
         'accept': 'application/json',
@@ -176,14 +213,24 @@ export async function retrieveExaContents(
         'x-api-key': apiKey
       },
       body: JSON.stringify(requestBody)
-    });
+    }, context);
     
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Exa API error: ${response.status} ${response.statusText} - ${errorText}`);
+      throw await upstreamError('Exa', response);
     }
     
     const data = await response.json() as ExaContentsResponse;
+    if (data.costDollars) {
+      context.reportCost?.(data.costDollars.total);
+    }
+    
+    if (params.summarize && params.summarize !== "none") {
+      const results = await summarizeResults(data.results, params.summarize, context);
+      if (results) {
+        // The context string repeats the full texts, so it is left out
+        return JSON.stringify({ ...data, context: undefined, results });
+      }
+    }
     
     // If context was requested and is available, return it as a string
     if (params.context && data.context) {
@@ -194,7 +241,33 @@ export async function retrieveExaContents(
     return JSON.stringify(data);
   } catch (error) {
     // Handle API errors
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Exa API error: ${errorMessage}`);
+    throw toToolError(error, 'Exa API error');
   }
 }
+
+/**
+ * Replaces the text of each result with a summary
+ * Results without text, and results whose summary fails, are kept unchanged
+ * 
+ * @returns Summarized results, or undefined if the client does not support sampling
+ */
+async function summarizeResults(
+  results: ExaContentsResult[],
+  mode: Exclude<PageSummaryMode, "none">,
+  context: ToolContext
+): Promise<ExaContentsResult[] | undefined> {
+  const pages = results.filter(result => result.text);
+  const summaries = await summarizeEach(
+    pages.map(result => `${result.title}\n${result.url}\n\n${result.text}`),
+    PAGE_SUMMARIES[mode],
+    context
+  );
+  if (!summaries) {
+    return undefined;
+  }
+
+  return results.map(result => {
+    const summary = summaries[pages.indexOf(result)];
+    return summary === undefined ? result : { ...result, text: summary };
+  });
+}
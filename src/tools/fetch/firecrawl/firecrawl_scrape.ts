@@ -1,4 +1,10 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ToolContent, ToolContext } from "../../../types/index.js";
+import { parseDataUri } from "../../../utils/file_utils";
+import { arrayBufferToBase64 } from "../../../utils/r2_utils";
+import { UpstreamHttpError, upstreamError } from "../../../utils/error_utils";
+import { fetchUpstream } from "../../../utils/upstream_utils";
+import { consoleLogger } from "../../../utils/log_utils";
 
 // Type definitions
 export interface FirecrawlScrapeParams {
@@ -64,6 +70,11 @@ export const SCRAPE_TOOL: Tool = {
     "Scrape a single webpage with advanced options for content extraction. " +
     "Supports various formats including markdown, HTML, and screenshots. " +
     "Can execute custom actions like clicking or scrolling before scraping.",
+  annotations: {
+    title: "Scrape Web Page",
+    readOnlyHint: true,
+    openWorldHint: true
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -230,12 +241,14 @@ export function isFirecrawlScrapeArgs(args: unknown): args is FirecrawlScrapePar
  * 
  * @param params - The scrape parameters
  * @param apiKey - Firecrawl API key
- * @returns Formatted string with scrape results
+ * @param context - Tool context used to report scrape progress and to cancel the scrape
+ * @returns Formatted string with scrape results, followed by an image block when a screenshot was taken
  */
 export async function performFirecrawlScrape(
   params: FirecrawlScrapeParams,
-  apiKey: string
-): Promise<string> {
+  apiKey: string,
+  context: ToolContext = {}
+): Promise<ToolContent[] | string> {
   const url = 'https://api.firecrawl.dev/v1/scrape';
   
   const requestBody = {
@@ -246,34 +259,39 @@ export async function performFirecrawlScrape(
     origin: 'y-server'
   };
 
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(requestBody)
-    });
+  context.onProgress?.(0, 1, `Scraping ${params.url}`);
+  const response = await fetchUpstream('firecrawl', url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`
+    },
+    body: JSON.stringify(requestBody)
+  }, context);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Firecrawl API error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
+  if (!response.ok) {
+    throw await upstreamError('Firecrawl', response);
+  }
 
-    const responseData = await response.json() as FirecrawlScrapeResponse;
-    
-    if (!responseData.success) {
-      throw new Error(responseData.error || 'Scraping failed with no specific error message');
-    }
+  const responseData = await response.json() as FirecrawlScrapeResponse;
+  
+  if (!responseData.success) {
+    throw new UpstreamHttpError(responseData.error || 'Scraping failed with no specific error message');
+  }
+  context.onProgress?.(1, 1, `Scraped ${params.url}`);
 
-    return formatScrapeResults(responseData, params.formats || ['markdown']);
-  } catch (error) {
-    if (error instanceof Error) {
-      return `Error: ${error.message}`;
-    }
-    return `Unknown error occurred during scraping`;
+  const requestedFormats = params.formats || ['markdown'];
+  const text = formatScrapeResults(responseData, requestedFormats);
+  const screenshot = responseData.data?.screenshot;
+  const wantsScreenshot = requestedFormats.includes('screenshot') || requestedFormats.includes('screenshot@fullPage');
+  if (!wantsScreenshot || !screenshot) {
+    return text;
   }
+
+  return [
+    { type: 'text', text },
+    await formatScreenshot(screenshot, context)
+  ];
 }
 
 /**
@@ -323,9 +341,10 @@ function formatScrapeResults(response: FirecrawlScrapeResponse, requestedFormats
     output.push('');
   }
 
+  // Screenshots are returned as a separate content block, only URLs are repeated here
   if ((requestedFormats.includes('screenshot') || requestedFormats.includes('screenshot@fullPage')) && data.screenshot) {
     output.push('## Screenshot:');
-    output.push(data.screenshot);
+    output.push(parseDataUri(data.screenshot) ? 'Attached as image' : data.screenshot);
     output.push('');
   }
 
@@ -352,3 +371,33 @@ function formatScrapeResults(response: FirecrawlScrapeResponse, requestedFormats
 
   return output.join('\n');
 }
+
+/**
+ * Turns a Firecrawl screenshot into a content block
+ * Base64 data URIs are returned inline, hosted screenshots are downloaded
+ * and fall back to a resource link when the download fails
+ * 
+ * @param screenshot - Screenshot as a data URI or URL
+ * @param context - Tool context, its signal aborts the download when the call is cancelled
+ * @returns Image block or resource link for the screenshot
+ */
+async function formatScreenshot(screenshot: string, context: ToolContext): Promise<ToolContent> {
+  const inline = parseDataUri(screenshot);
+  if (inline) {
+    return { type: 'image', data: inline.data, mimeType: inline.mimeType };
+  }
+
+  try {
+    const response = await fetchUpstream('firecrawl', screenshot, {}, context);
+    if (!response.ok) {
+      throw new Error(`HTTP error! Status: ${response.status}`);
+    }
+    const mimeType = response.headers.get('content-type')?.split(';')[0] || 'image/png';
+    return { type: 'image', data: arrayBufferToBase64(await response.arrayBuffer()), mimeType };
+  } catch (error) {
+    (context.logger ?? consoleLogger).warning("Error downloading screenshot", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { type: 'resource_link', uri: screenshot, name: 'screenshot', mimeType: 'image/png' };
+  }
+}
@@ -1,4 +1,7 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ToolContext } from "../../../types/index.js";
+import { upstreamError } from "../../../utils/error_utils";
+import { fetchUpstream } from "../../../utils/upstream_utils";
 
 // Type definitions
 export interface TavilyExtractResponse {
@@ -16,6 +19,11 @@ export const EXTRACT_TOOL: Tool = {
   description:
     "A powerful web content extraction tool that retrieves and processes raw content from specified URLs, " +
     "ideal for data collection, content analysis, and research tasks.",
+  annotations: {
+    title: "Extract Web Pages",
+    readOnlyHint: true,
+    openWorldHint: true
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -62,6 +70,7 @@ export function isTavilyExtractArgs(args: unknown): args is {
  * @param urls - Array of URLs to extract content from
  * @param params - Additional extract parameters
  * @param apiKey - Tavily API key
+ * @param context - Tool context, its signal aborts the request when the call is cancelled
  * @returns Original JSON response as a string
  */
 export async function performTavilyExtract(
@@ -70,7 +79,8 @@ export async function performTavilyExtract(
     extract_depth?: string;
     include_images?: boolean;
   } = {}, 
-  apiKey: string
+  apiKey: string,
+  context: ToolContext = {}
 ): Promise<string> {
   const url = 'https://api.tavily.com/extract';
   
@@ -85,7 +95,7 @@ export async function performTavilyExtract(
     include_images: params.include_images || false
   };
 
-  const response = await fetch(url, {
+  const response = await fetchUpstream('tavily', url, {
     method: 'POST',
     headers: {
       'accept': 'application/json',
@@ -93,11 +103,10 @@ export async function performTavilyExtract(
       'x-api-key': apiKey
     },
     body: JSON.stringify(extractParams)
-  });
+  }, context);
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Tavily API error: ${response.status} ${response.statusText} - ${errorText}`);
+    throw await upstreamError('Tavily', response);
   }
 
   const data = await response.json() as TavilyExtractResponse;
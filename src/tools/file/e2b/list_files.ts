@@ -1,6 +1,7 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { Sandbox } from "@e2b/code-interpreter";
-import { createSandbox, formatError, formatResultWithSandboxInfo } from "../../../utils/e2b_utils";
+import { createSandbox, pauseSandbox, formatResultWithSandboxInfo, pauseAfterFailure, toE2BError } from "../../../utils/e2b_utils";
+import { ToolContext } from "../../../types/index.js";
 
 // Type definitions
 export interface ListFilesParams {
@@ -14,6 +15,11 @@ export const LIST_FILES_TOOL: Tool = {
   description: "Lists files and directories in a secure sandbox environment using E2B. " +
     "All file operations are contained within the sandbox and will not affect the host system. " +
     "Supports sandbox persistence - sandbox is automatically paused after each operation and can be resumed using its ID.",
+  annotations: {
+    title: "List Sandbox Files",
+    readOnlyHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -63,17 +69,19 @@ export function isListFilesArgs(args: unknown): args is ListFilesParams {
  * 
  * @param params - The list files operation parameters
  * @param apiKey - E2B API key
+ * @param context - Tool context the sandbox requests are reported to
  * @returns Output from the list operation
  */
 export async function listFiles(
   params: ListFilesParams,
-  apiKey: string
+  apiKey: string,
+  context: ToolContext = {}
 ): Promise<string> {
   let sandbox: Sandbox | null = null;
   
   try {
     // Create or resume a sandbox
-    sandbox = await createSandbox(apiKey, params.sandboxId);
+    sandbox = await createSandbox(apiKey, params.sandboxId, context);
     
     // Store initial sandbox ID
     const initialSandboxId = sandbox.sandboxId;
@@ -83,12 +91,13 @@ export async function listFiles(
     const result = formatListResult(params.path, files);
     
     // Always pause the sandbox after operation
-    const pausedSandboxId = await sandbox.pause();
+    const pausedSandboxId = await pauseSandbox(sandbox, context);
     
     // Add sandbox ID information to the result
     return formatResultWithSandboxInfo(result, initialSandboxId, pausedSandboxId);
   } catch (error) {
-    return formatError(error);
+    await pauseAfterFailure(sandbox);
+    throw toE2BError(error);
   }
 }
 
@@ -1,8 +1,8 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { Sandbox } from "@e2b/code-interpreter";
-import { createSandbox, formatError, formatResultWithSandboxInfo } from "../../../utils/e2b_utils";
+import { createSandbox, pauseSandbox, formatResultWithSandboxInfo, pauseAfterFailure, toE2BError } from "../../../utils/e2b_utils";
 import { uploadToR2 } from "../../../utils/r2_utils";
-import { Env } from "../../../types/index.js";
+import { Env, ToolContext } from "../../../types/index.js";
 
 // Type definitions
 export interface ReadFileParams {
@@ -20,6 +20,11 @@ export const READ_FILE_TOOL: Tool = {
     "All file operations are contained within the sandbox and will not affect the host system. " +
     "Supports sandbox persistence - sandbox is automatically paused after each operation and can be resumed using its ID. " +
     "Optional upload parameter allows uploading the file content to R2 storage.",
+  annotations: {
+    title: "Read Sandbox File",
+    readOnlyHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -82,18 +87,20 @@ export function isReadFileArgs(args: unknown): args is ReadFileParams {
  * @param params - The read file operation parameters
  * @param apiKey - E2B API key
  * @param env - Cloudflare Worker environment, required if upload is specified
+ * @param context - Tool context, the caller id scopes the upload
  * @returns Output from the read operation
  */
 export async function readFile(
   params: ReadFileParams,
   apiKey: string,
-  env?: Env
+  env?: Env,
+  context: ToolContext = {}
 ): Promise<string> {
   let sandbox: Sandbox | null = null;
   
   try {
     // Create or resume a sandbox
-    sandbox = await createSandbox(apiKey, params.sandboxId);
+    sandbox = await createSandbox(apiKey, params.sandboxId, context);
     
     // Store initial sandbox ID
     const initialSandboxId = sandbox.sandboxId;
@@ -109,6 +116,7 @@ export async function readFile(
       const cdnUrl = await uploadToR2(content, env, {
         prefix: 'sandbox-file',
         extension: extension,
+        owner: context.callerId,
       });
       
       // Add the CDN URL to the result
@@ -119,12 +127,13 @@ export async function readFile(
     }
     
     // Always pause the sandbox after operation
-    const pausedSandboxId = await sandbox.pause();
+    const pausedSandboxId = await pauseSandbox(sandbox, context);
     
     // Add sandbox ID information to the result
     return formatResultWithSandboxInfo(result, initialSandboxId, pausedSandboxId);
   } catch (error) {
-    return formatError(error);
+    await pauseAfterFailure(sandbox);
+    throw toE2BError(error);
   }
 }
 
@@ -1,7 +1,9 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { Sandbox } from "@e2b/code-interpreter";
 import { downloadFromUrl } from "../../../utils/file_utils";
-import { createSandbox, formatError, formatResultWithSandboxInfo } from "../../../utils/e2b_utils";
+import { createSandbox, pauseSandbox, formatResultWithSandboxInfo, pauseAfterFailure, toE2BError } from "../../../utils/e2b_utils";
+import { InvalidInputError } from "../../../utils/error_utils";
+import { ToolContext } from "../../../types/index.js";
 
 // Type definitions
 export interface WriteFileParams {
@@ -21,6 +23,13 @@ export const WRITE_TO_FILE_TOOL: Tool = {
     "If the file doesn't exist, it will be created. " +
     "All file operations are contained within the sandbox and will not affect the host system. " +
     "Supports sandbox persistence - sandbox is automatically paused after each operation and can be resumed using its ID.",
+  annotations: {
+    title: "Write Sandbox File",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -93,20 +102,23 @@ export function isWriteFileArgs(args: unknown): args is WriteFileParams {
  * 
  * @param params - The write file operation parameters
  * @param apiKey - E2B API key
+ * @param context - Tool context used to report the sandbox
  * @returns Output from the write operation
  */
 export async function writeFile(
   params: WriteFileParams,
-  apiKey: string
+  apiKey: string,
+  context: ToolContext = {}
 ): Promise<string> {
   let sandbox: Sandbox | null = null;
   
   try {
     // Create or resume a sandbox
-    sandbox = await createSandbox(apiKey, params.sandboxId);
+    sandbox = await createSandbox(apiKey, params.sandboxId, context);
     
     // Store initial sandbox ID
     const initialSandboxId = sandbox.sandboxId;
+    context.reportAffected?.({ sandboxId: initialSandboxId });
     
     // Execute write operation based on source (direct content or URL)
     if (params.url) {
@@ -121,18 +133,20 @@ export async function writeFile(
       await sandbox.files.write(params.path, params.content);
     } else {
       // This should never happen due to validation, but added as a safeguard
-      throw new Error("Either content or url must be provided");
+      throw new InvalidInputError("Either content or url must be provided");
     }
     
     const result = formatWriteResult(params.path);
     
     // Always pause the sandbox after operation
-    const pausedSandboxId = await sandbox.pause();
+    const pausedSandboxId = await pauseSandbox(sandbox, context);
+    context.reportAffected?.({ pausedSandboxId });
     
     // Add sandbox ID information to the result
     return formatResultWithSandboxInfo(result, initialSandboxId, pausedSandboxId);
   } catch (error) {
-    return formatError(error);
+    await pauseAfterFailure(sandbox);
+    throw toE2BError(error);
   }
 }
 
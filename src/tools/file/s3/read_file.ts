@@ -1,6 +1,8 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { GetObjectCommand } from "@aws-sdk/client-s3";
-import { parseS3ApiKey, parseS3Path, createS3Client } from "../../../utils/s3_utils";
+import { parseS3ApiKey, parseS3Path, createS3Client, getS3Object } from "../../../utils/s3_utils";
+import { toToolError } from "../../../utils/error_utils";
+import { consoleLogger } from "../../../utils/log_utils";
+import { ToolContext } from "../../../types/index.js";
 
 // Type definitions
 export interface S3ReadFileArgs {
@@ -16,6 +18,11 @@ export const READ_FILE_TOOL: Tool = {
     "for example to analyze code, review text files, or extract information from configuration files. " +
     "Automatically extracts raw text from PDF and DOCX files. May not be suitable for other types of binary files, " +
     "as it returns the raw content as a string.",
+  annotations: {
+    title: "Read S3 File",
+    readOnlyHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -43,86 +50,38 @@ export function isS3ReadFileArgs(args: unknown): args is S3ReadFileArgs {
  * 
  * @param path - S3 file path
  * @param apiKey - S3 API key
+ * @param context - Tool context providing the request logger
  * @returns Content of the file
  */
-export async function readS3File(path: string, apiKey: string): Promise<string> {
-  // Debug: Log input parameters (with API key redacted)
-  const redactedApiKey = apiKey.replace(/\/\/([^:]+):([^@]+)@/, '//***:***@');
-  console.log(`[DEBUG] Reading S3 file: 
-    - Path: ${path}
-    - API Key: ${redactedApiKey}
-  `);
+export async function readS3File(path: string, apiKey: string, context: ToolContext = {}): Promise<string> {
+  const logger = context.logger ?? consoleLogger;
+  logger.debug("Reading S3 file", { path });
   
   try {
     // Parse API key and path
-    const credentials = parseS3ApiKey(apiKey);
+    const credentials = parseS3ApiKey(apiKey, logger);
     const { bucket, key } = parseS3Path(path, credentials.bucket);
     
-    // Debug: Log parsed bucket and key
-    console.log(`[DEBUG] Parsed S3 path: 
-    - Bucket: ${bucket}
-    - Key: ${key}
-    - Using endpoint: ${credentials.endpoint}
-    `);
-    
     // Create S3 client
-    const s3Client = createS3Client(credentials);
-    
-    // Create GetObject command
-    const command = new GetObjectCommand({
-      Bucket: bucket,
-      Key: key
-    });
-    
-    // Debug: Log request details
-    console.log(`[DEBUG] Sending S3 GetObject request:
-    - Bucket: ${bucket}
-    - Key: ${key}
-    `);
-    
-    // Execute the command
-    const response = await s3Client.send(command);
-    
-    // Log response details
-    console.log(`[DEBUG] S3 response received:
-    - Content Type: ${response.ContentType}
-    - Content Length: ${response.ContentLength}
-    - ETag: ${response.ETag}
-    `);
+    const s3Client = createS3Client(credentials, logger);
     
-    // Convert stream to string
-    if (!response.Body) {
-      throw new Error('Response body is empty');
-    }
+    // Execute the request
+    logger.debug("Sending S3 GetObject request", { bucket, key, endpoint: credentials.endpoint });
+    const response = await getS3Object(s3Client, bucket, key);
     
-    const streamReader = response.Body.transformToWebStream();
-    const reader = streamReader.getReader();
-    const chunks: Uint8Array[] = [];
-    
-    let done = false;
-    while (!done) {
-      const { value, done: doneReading } = await reader.read();
-      done = doneReading;
-      if (value) {
-        chunks.push(value);
-      }
-    }
-    
-    const allChunks = new Uint8Array(chunks.reduce((acc, chunk) => acc + chunk.length, 0));
-    let position = 0;
-    
-    for (const chunk of chunks) {
-      allChunks.set(chunk, position);
-      position += chunk.length;
-    }
+    logger.debug("S3 response received", {
+      contentType: response.contentType,
+      contentLength: response.data.length,
+      etag: response.etag
+    });
     
-    const content = new TextDecoder().decode(allChunks);
-    console.log(`[DEBUG] Successfully read ${content.length} bytes from S3`);
+    const content = new TextDecoder().decode(response.data);
+    logger.info(`Read ${content.length} characters from S3`, { path });
     
     return content;
   } catch (error) {
-    // Debug: Log error
-    console.error(`[DEBUG] Error reading S3 file: ${error instanceof Error ? error.message : String(error)}`);
-    throw new Error(`Failed to read file from S3: ${error instanceof Error ? error.message : String(error)}`);
+    const toolError = toToolError(error, "Failed to read file from S3");
+    logger.error(toolError.message, { path });
+    throw toolError;
   }
 }
@@ -2,6 +2,9 @@ import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { PutObjectCommand } from "@aws-sdk/client-s3";
 import { parseS3ApiKey, parseS3Path, createS3Client } from "../../../utils/s3_utils";
 import { downloadFromUrl } from "../../../utils/file_utils";
+import { InvalidInputError, toToolError } from "../../../utils/error_utils";
+import { consoleLogger } from "../../../utils/log_utils";
+import { ToolContext } from "../../../types/index.js";
 
 // Type definitions
 export interface S3WriteFileArgs {
@@ -22,6 +25,13 @@ This tool will automatically create any directories needed to write the file.
 NOTE: For existing large files where you only need to make targeted changes,
 use s3-edit-file instead as it's more efficient and only modifies the specific
 sections needed rather than rewriting the entire file content.`,
+  annotations: {
+    title: "Write S3 File",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -83,21 +93,25 @@ export function isS3WriteFileArgs(args: unknown): args is S3WriteFileArgs {
  * @param content - Content to write or undefined if using URL
  * @param apiKey - S3 API key
  * @param url - Optional URL to download content from
+ * @param context - Tool context providing the request logger and used to report the written object
  * @returns Success message
  */
 export async function writeS3File(
   path: string, 
   content: string | undefined, 
   apiKey: string,
-  url?: string
+  url?: string,
+  context: ToolContext = {}
 ): Promise<string> {
+  const logger = context.logger ?? consoleLogger;
+
   try {
     // Parse API key and path
-    const credentials = parseS3ApiKey(apiKey);
+    const credentials = parseS3ApiKey(apiKey, logger);
     const { bucket, key } = parseS3Path(path, credentials.bucket);
     
     // Create S3 client
-    const s3Client = createS3Client(credentials);
+    const s3Client = createS3Client(credentials, logger);
     
     // Handle content from URL if provided
     let contentToUpload: string | ArrayBuffer;
@@ -110,15 +124,13 @@ export async function writeS3File(
     } else if (content) {
       contentToUpload = content;
     } else {
-      throw new Error("Either content or url must be provided");
+      throw new InvalidInputError("Either content or url must be provided");
     }
     
-    // Debug: Log request details
-    console.log(`[DEBUG] Sending S3 PUT request:
-    - Bucket: ${bucket}
-    - Key: ${key}
-    - Content Length: ${typeof contentToUpload === 'string' ? contentToUpload.length : contentToUpload.byteLength} bytes
-    `);
+    const contentLength = typeof contentToUpload === 'string' 
+      ? contentToUpload.length 
+      : contentToUpload.byteLength;
+    logger.debug("Sending S3 PutObject request", { bucket, key, contentLength });
     
     // Create command
     const command = new PutObjectCommand({
@@ -130,21 +142,14 @@ export async function writeS3File(
     // Execute the command
     const response = await s3Client.send(command);
     
-    // Debug: Log response
-    console.log(`[DEBUG] S3 response received:
-    - ETag: ${response.ETag}
-    - Version ID: ${response.VersionId || 'none'}
-    `);
+    logger.debug("S3 response received", { etag: response.ETag, versionId: response.VersionId });
+    context.reportAffected?.({ bucket, key, etag: response.ETag, versionId: response.VersionId });
+    logger.info(`Wrote ${contentLength} bytes to S3`, { path });
     
-    console.log(`[DEBUG] Successfully wrote to S3: ${path}`);
-    
-    const contentLength = typeof contentToUpload === 'string' 
-      ? contentToUpload.length 
-      : contentToUpload.byteLength;
-      
     return `Successfully wrote ${contentLength} bytes to ${path}`;
   } catch (error) {
-    console.error(`[DEBUG] Error writing to S3: ${error instanceof Error ? error.message : String(error)}`);
-    throw new Error(`Failed to write file to S3: ${error instanceof Error ? error.message : String(error)}`);
+    const toolError = toToolError(error, "Failed to write file to S3");
+    logger.error(toolError.message, { path });
+    throw toolError;
   }
 }
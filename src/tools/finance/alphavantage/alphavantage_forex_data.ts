@@ -1,6 +1,8 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { Env } from "../../../types/index.js";
+import { Env, ToolContext } from "../../../types/index.js";
 import { uploadToR2 } from "../../../utils/r2_utils.js";
+import { InvalidInputError, QuotaError, UpstreamHttpError, upstreamError } from "../../../utils/error_utils";
+import { fetchUpstream } from "../../../utils/upstream_utils";
 
 // Type definitions
 export interface AlphavantageFXParams {
@@ -17,6 +19,11 @@ export interface AlphavantageFXParams {
 export const ALPHAVANTAGE_FOREX_TOOL: Tool = {
   name: "alphavantage-forex-data",
   description: "Fetch forex (FX) data from Alpha Vantage API, including real-time and historical exchange rates.",
+  annotations: {
+    title: "Forex Data",
+    readOnlyHint: true,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -103,81 +110,87 @@ export function isAlphavantageForexArgs(args: unknown): args is AlphavantageFXPa
  * @param params - The Alpha Vantage API parameters
  * @param apiKey - Alpha Vantage API key
  * @param env - Cloudflare Worker environment for R2 storage
+ * @param context - Tool context, the caller id scopes the upload and the signal cancels the fetch
  * @returns Either the data content (if ≤300 lines) or a URL to the uploaded file
  */
 export async function fetchAlphavantageFXData(
   params: AlphavantageFXParams,
   apiKey: string,
-  env?: Env
+  env?: Env,
+  context: ToolContext = {}
 ): Promise<string> {
-  try {
-    // Construct the API URL
-    const baseUrl = "https://www.alphavantage.co/query";
-    const urlParams = new URLSearchParams();
-    
-    // Add required parameters
-    urlParams.append("function", params.function);
-    urlParams.append("apikey", apiKey);
-    
-    // Always set datatype to CSV
-    urlParams.append("datatype", "csv");
+  // Construct the API URL
+  const baseUrl = "https://www.alphavantage.co/query";
+  const urlParams = new URLSearchParams();
+  
+  // Add required parameters
+  urlParams.append("function", params.function);
+  urlParams.append("apikey", apiKey);
+  
+  // Always set datatype to CSV
+  urlParams.append("datatype", "csv");
+  
+  // Add function-specific parameters
+  if (params.function === "CURRENCY_EXCHANGE_RATE") {
+    urlParams.append("from_currency", params.from_currency!);
+    urlParams.append("to_currency", params.to_currency!);
+  } else {
+    urlParams.append("from_symbol", params.from_symbol!);
+    urlParams.append("to_symbol", params.to_symbol!);
     
-    // Add function-specific parameters
-    if (params.function === "CURRENCY_EXCHANGE_RATE") {
-      urlParams.append("from_currency", params.from_currency!);
-      urlParams.append("to_currency", params.to_currency!);
-    } else {
-      urlParams.append("from_symbol", params.from_symbol!);
-      urlParams.append("to_symbol", params.to_symbol!);
-      
-      if (params.function === "FX_INTRADAY") {
-        urlParams.append("interval", params.interval!);
-      }
-      
-      if (params.outputsize) {
-        urlParams.append("outputsize", params.outputsize);
-      }
+    if (params.function === "FX_INTRADAY") {
+      urlParams.append("interval", params.interval!);
     }
     
-    // Fetch CSV data
-    const apiUrl = `${baseUrl}?${urlParams.toString()}`;
-    const response = await fetch(apiUrl);
-    
-    if (!response.ok) {
-      throw new Error(`Alpha Vantage API error: ${response.status} ${response.statusText}`);
+    if (params.outputsize) {
+      urlParams.append("outputsize", params.outputsize);
     }
-    
-    // Get the CSV text
-    const csvText = await response.text();
-    
-    // Check if there's an error message in the response
-    // Alpha Vantage might return error messages in CSV format too
-    if (csvText.includes("Error Message") || csvText.includes("Information:")) {
-      return csvText; // Return the error message directly
+  }
+  
+  // Fetch CSV data
+  const apiUrl = `${baseUrl}?${urlParams.toString()}`;
+  const response = await fetchUpstream('alphavantage', apiUrl, {}, context);
+  
+  if (!response.ok) {
+    throw await upstreamError('Alpha Vantage', response);
+  }
+  
+  // Get the CSV text
+  const csvText = await response.text();
+  
+  // Check if there's an error message in the response
+  // Alpha Vantage might return error messages in CSV format too
+  if (csvText.includes("Error Message")) {
+    throw new InvalidInputError(`Alpha Vantage API error: ${csvText}`);
+  }
+  if (csvText.includes("Information:")) {
+    // Information notices mostly report the daily rate limit
+    if (/rate limit/i.test(csvText)) {
+      throw new QuotaError(`Alpha Vantage API error: ${csvText}`);
     }
+    throw new UpstreamHttpError(`Alpha Vantage API error: ${csvText}`);
+  }
    
-    // For larger datasets, upload to R2 and return URL
-    if (!env || !env.CDN_BUCKET) {
-      // If R2 storage is not available, return the CSV URL
-      return apiUrl;
-    }
-    
-    // Generate filename based on function and symbols
-    let prefix = "alphavantage-";
-    if (params.function === "CURRENCY_EXCHANGE_RATE") {
-      prefix += `${params.from_currency}-${params.to_currency}`;
-    } else {
-      prefix += `${params.function}-${params.from_symbol}-${params.to_symbol}`;
-    }
-    
-    // Upload to R2 and get URL
-    const fileUrl = await uploadToR2(csvText, env, {
-      prefix,
-      extension: "csv"
-    });
-    
-    return fileUrl;
-  } catch (error) {
-    return `Error: ${error instanceof Error ? error.message : "Unknown error"}`;
+  // For larger datasets, upload to R2 and return URL
+  if (!env || !env.CDN_BUCKET) {
+    // If R2 storage is not available, return the CSV URL
+    return apiUrl;
   }
+  
+  // Generate filename based on function and symbols
+  let prefix = "alphavantage-";
+  if (params.function === "CURRENCY_EXCHANGE_RATE") {
+    prefix += `${params.from_currency}-${params.to_currency}`;
+  } else {
+    prefix += `${params.function}-${params.from_symbol}-${params.to_symbol}`;
+  }
+  
+  // Upload to R2 and get URL
+  const fileUrl = await uploadToR2(csvText, env, {
+    prefix,
+    extension: "csv",
+    owner: context.callerId
+  });
+  
+  return fileUrl;
 }
@@ -69,61 +69,191 @@ import {
   replyEmail,
   isReplyEmailArgs
 } from "./email/gmail";
-import { Env } from "../types/index.js";
+import { Env, ToolAnnotations, ToolContext, ToolOutput, UpstreamCall } from "../types/index.js";
+import { requiresConfirmation } from "../utils/confirmation_utils";
+import { toToolError } from "../utils/error_utils";
+import { recordUsage } from "../usage/usage_store";
+import { recordAudit } from "../audit/audit_log";
+import { recordToolMetrics } from "../metrics/metrics";
+import { consoleLogger } from "../utils/log_utils";
 
 /**
  * Handle tool calls based on tool name
  * This central registry makes adding new tools easier by isolating
  * tool implementations from the transport layer
+ * Every call is logged, recorded for usage metering (see usage/usage_store.ts)
+ * and in the metrics (see metrics/metrics.ts), and calls of tools not annotated
+ * as read-only in the audit log, see audit/audit_log.ts
+ * These writes are handed to context.waitUntil when set, so they do not delay the result
  * 
  * @param name - Tool name
  * @param args - Tool arguments
- * @param apiKey - API key for tool authentication
+ * @param apiKey - Credentials of the tool's integration, see getToolIntegration
  * @param env - Cloudflare Worker environment
- * @returns Promise with tool execution result
+ * @param context - Per-call context, e.g. the progress callback
+ * @returns Promise with tool execution result, either text or structured content
  */
-export async function handleToolCall(name: string, args: unknown, apiKey: string, env?: Env): Promise<string> {
+export async function handleToolCall(name: string, args: unknown, apiKey: string, env?: Env, context: ToolContext = {}): Promise<ToolOutput> {
+  const startedAt = Date.now();
+  let costDollars: number | undefined;
+  const affected: Record<string, string> = {};
+  const upstream: UpstreamCall[] = [];
+
+  context = {
+    ...context,
+    // Tools acting on the user's behalf check whether they must ask first
+    confirmationRequired: requiresConfirmation(name, env, context.callerId),
+    reportCost: cost => {
+      costDollars = (costDollars ?? 0) + cost;
+    },
+    reportAffected: ids => {
+      for (const [key, value] of Object.entries(ids)) {
+        if (value) {
+          affected[key] = value;
+        }
+      }
+    },
+    reportUpstream: call => {
+      upstream.push(call);
+    },
+  };
+
+  // Every call is logged, metered and counted, whether it succeeds or not
+  const finish = async (success: boolean, bytes: number, errorCode?: string) => {
+    const callerId = context.callerId ?? "anonymous";
+    const integration = getToolIntegration(name);
+    const latencyMs = Date.now() - startedAt;
+    // Debug level keeps the entry out of the client's notifications, the console always gets it
+    (context.logger ?? consoleLogger).debug("Tool call finished", {
+      tool: name,
+      latencyMs,
+      success,
+      ...(errorCode && { errorCode }),
+      upstream,
+    });
+
+    const writes = Promise.all([
+      recordUsage(env, { callerId, tool: name, integration, latencyMs, bytes, success, errorCode, costDollars }),
+      // Failed calls may still have changed something, e.g. a sandbox that ran part of the code
+      !isReadOnlyTool(name) && recordAudit(env, { callerId, tool: name, arguments: args, success, errorCode, affected }),
+      recordToolMetrics(env, {
+        // Unknown names come from the client, keep them out of the metric labels
+        tool: ALL_TOOLS.some(tool => tool.name === name) ? name : "unknown",
+        latencyMs,
+        success,
+        errorCode,
+        upstream,
+      }),
+    ]);
+    if (context.waitUntil) {
+      context.waitUntil(writes);
+    } else {
+      await writes;
+    }
+  };
+
+  try {
+    const output = await dispatchToolCall(name, args, apiKey, env, context);
+    await finish(true, new TextEncoder().encode(typeof output === "string" ? output : JSON.stringify(output)).length);
+    return output;
+  } catch (error) {
+    await finish(false, 0, error instanceof McpError ? "invalid_input" : toToolError(error).code);
+    throw error;
+  }
+}
+
+/**
+ * Argument checks of every tool, the same ones dispatchToolCall applies
+ */
+const TOOL_ARGUMENT_GUARDS: Record<string, (args: unknown) => boolean> = {
+  "fetch": isCloudfareFetchArgs,
+  "bilibili-subtitle-fetch": isBilibiliFetchArgs,
+  "s3-read-file": isS3ReadFileArgs,
+  "s3-write-to-file": isS3WriteFileArgs,
+  "s3-edit-file": isS3ReplaceInFileArgs,
+  "brave-web-search": isBraveWebSearchArgs,
+  "tavily-search": isTavilySearchArgs,
+  "exa-search": isExaSearchArgs,
+  "exa-contents": isExaContentsArgs,
+  "tavily-extract": isTavilyExtractArgs,
+  "image-router-generate": isImageGenerateArgs,
+  "google-calendar-get-events": isGetEventsArgs,
+  "google-calendar-create-event": isCreateEventArgs,
+  "google-calendar-delete-event": isDeleteEventArgs,
+  "google-calendar-update-event": isUpdateEventArgs,
+  "google-gmail-query-emails": isQueryEmailsArgs,
+  "google-gmail-get-email": isGetEmailArgs,
+  "google-gmail-bulk-get-emails": isBulkGetEmailsArgs,
+  "google-gmail-create-draft": isCreateDraftArgs,
+  "google-gmail-delete-draft": isDeleteDraftArgs,
+  "google-gmail-reply-email": isReplyEmailArgs,
+  "firecrawl-scrape": isFirecrawlScrapeArgs,
+  "e2b-list-files": isE2BListFilesArgs,
+  "e2b-read-file": isE2BReadFileArgs,
+  "e2b-write-to-file": isE2BWriteFileArgs,
+  "e2b-code": isCodeArgs,
+  "e2b-command": isCommandArgs,
+  "alphavantage-forex-data": isAlphavantageForexArgs,
+};
+
+/**
+ * Check whether a tool call names a served tool with valid arguments
+ * Lets the transport skip the rate limiter for calls that would be rejected anyway
+ *
+ * @param name - Tool name
+ * @param args - Tool arguments
+ * @returns True if dispatching the call would reach the tool
+ */
+export function isValidToolCall(name: string, args: unknown): boolean {
+  const guard = TOOL_ARGUMENT_GUARDS[name];
+  return !!guard && guard(args);
+}
+
+/**
+ * Run a tool call, dispatching to the tool's implementation by name
+ */
+async function dispatchToolCall(name: string, args: unknown, apiKey: string, env: Env | undefined, context: ToolContext): Promise<ToolOutput> {
   switch (name) {
     case "fetch": {
       if (!isCloudfareFetchArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for fetch");
       }
-      return performCloudfareFetch(args, env);
+      return performCloudfareFetch(args, env, context);
     }
 
     case "bilibili-subtitle-fetch": {
       if (!isBilibiliFetchArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for bilibili-subtitle-fetch");
       }
-      return performBilibiliFetch(args, apiKey, env);
+      return performBilibiliFetch(args, apiKey, env, context);
     }
 
     case "s3-read-file": {
       if (!isS3ReadFileArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for read-file");
       }
-      return readS3File(args.path, apiKey);
+      return readS3File(args.path, apiKey, context);
     }
 
     case "s3-write-to-file": {
       if (!isS3WriteFileArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for write-to-file");
       }
-      return writeS3File(args.path, args.content, apiKey, args.url);
+      return writeS3File(args.path, args.content, apiKey, args.url, context);
     }
 
     case "s3-edit-file": {
       if (!isS3ReplaceInFileArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for replace-in-file");
       }
-      return replaceInS3File(args.path, args.diff, apiKey);
+      return replaceInS3File(args.path, args.diff, apiKey, context);
     }
 
     case "brave-web-search": {
       if (!isBraveWebSearchArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for brave-web-search");
       }
-      return performWebSearch(args.query, args.count, apiKey);
+      return performWebSearch(args.query, args.count, apiKey, context);
     }
 
     case "tavily-search": {
@@ -154,7 +284,7 @@ export async function handleToolCall(name: string, args: unknown, apiKey: string
         include_raw_content,
         include_domains,
         exclude_domains
-      }, apiKey);
+      }, apiKey, context);
     }
 
     case "exa-search": {
@@ -167,22 +297,23 @@ export async function handleToolCall(name: string, args: unknown, apiKey: string
         numResults,
         includeDomains,
         excludeDomains
-      }, apiKey);
+      }, apiKey, context);
     }
     
     case "exa-contents": {
       if (!isExaContentsArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for exa-contents");
       }
-      const { urls, text, highlights, summary, livecrawl, subpages, context } = args;
+      const { urls, text, highlights, summary, livecrawl, subpages, context: includeContext, summarize } = args;
       return retrieveExaContents(urls, {
         text,
         highlights,
         summary,
         livecrawl,
         subpages,
-        context
-      }, apiKey);
+        context: includeContext,
+        summarize
+      }, apiKey, context);
     }
 
     case "tavily-extract": {
@@ -190,7 +321,7 @@ export async function handleToolCall(name: string, args: unknown, apiKey: string
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for tavily-extract");
       }
       const { urls, extract_depth, include_images } = args;
-      return performTavilyExtract(urls, { extract_depth, include_images }, apiKey);
+      return performTavilyExtract(urls, { extract_depth, include_images }, apiKey, context);
     }
 
     case "image-router-generate": {
@@ -198,126 +329,126 @@ export async function handleToolCall(name: string, args: unknown, apiKey: string
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for image-router-generate");
       }
       const { prompt, model, size, n, response_format } = args;
-      return performImageGeneration(prompt, { model, size, n, response_format }, apiKey, env);
+      return performImageGeneration(prompt, { model, size, n, response_format }, apiKey, env, context);
     }
 
     case "google-calendar-get-events": {
       if (!isGetEventsArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for google-calendar-get-events");
       }
-      return getCalendarEvents(apiKey, args);
+      return getCalendarEvents(apiKey, args, context);
     }
 
     case "google-calendar-create-event": {
       if (!isCreateEventArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for google-calendar-create-event");
       }
-      return createCalendarEvent(apiKey, args);
+      return createCalendarEvent(apiKey, args, context);
     }
 
     case "google-calendar-delete-event": {
       if (!isDeleteEventArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for google-calendar-delete-event");
       }
-      return deleteCalendarEvent(apiKey, args);
+      return deleteCalendarEvent(apiKey, args, context);
     }
 
     case "google-calendar-update-event": {
       if (!isUpdateEventArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for google-calendar-update-event");
       }
-      return updateCalendarEvent(apiKey, args);
+      return updateCalendarEvent(apiKey, args, context);
     }
 
     case "google-gmail-query-emails": {
       if (!isQueryEmailsArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for google-gmail-query-emails");
       }
-      return queryEmails(apiKey, args);
+      return queryEmails(apiKey, args, context);
     }
 
     case "google-gmail-get-email": {
       if (!isGetEmailArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for google-gmail-get-email");
       }
-      return getEmail(apiKey, args);
+      return getEmail(apiKey, args, context);
     }
 
     case "google-gmail-bulk-get-emails": {
       if (!isBulkGetEmailsArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for google-gmail-bulk-get-emails");
       }
-      return bulkGetEmails(apiKey, args);
+      return bulkGetEmails(apiKey, args, context);
     }
 
     case "google-gmail-create-draft": {
       if (!isCreateDraftArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for google-gmail-create-draft");
       }
-      return createDraft(apiKey, args);
+      return createDraft(apiKey, args, context);
     }
 
     case "google-gmail-delete-draft": {
       if (!isDeleteDraftArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for google-gmail-delete-draft");
       }
-      return deleteDraft(apiKey, args);
+      return deleteDraft(apiKey, args, context);
     }
 
     case "google-gmail-reply-email": {
       if (!isReplyEmailArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for google-gmail-reply-email");
       }
-      return replyEmail(apiKey, args);
+      return replyEmail(apiKey, args, context);
     }
 
     case "firecrawl-scrape": {
       if (!isFirecrawlScrapeArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for firecrawl-scrape");
       }
-      return performFirecrawlScrape(args, apiKey);
+      return performFirecrawlScrape(args, apiKey, context);
     }
 
     case "e2b-list-files": {
       if (!isE2BListFilesArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for e2b-list-files");
       }
-      return listE2BFiles(args, apiKey);
+      return listE2BFiles(args, apiKey, context);
     }
 
     case "e2b-read-file": {
       if (!isE2BReadFileArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for e2b-read-file");
       }
-      return readE2BFile(args, apiKey, env);
+      return readE2BFile(args, apiKey, env, context);
     }
 
     case "e2b-write-to-file": {
       if (!isE2BWriteFileArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for e2b-write-to-file");
       }
-      return writeE2BFile(args, apiKey);
+      return writeE2BFile(args, apiKey, context);
     }
 
     case "e2b-code": {
       if (!isCodeArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for e2b-code");
       }
-      return executeCode(args, apiKey);
+      return executeCode(args, apiKey, context);
     }
 
     case "e2b-command": {
       if (!isCommandArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for e2b-command");
       }
-      return executeCommand(args, apiKey);
+      return executeCommand(args, apiKey, context);
     }
 
     case "alphavantage-forex-data": {
       if (!isAlphavantageForexArgs(args)) {
         throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for alphavantage-forex-data");
       }
-      return fetchAlphavantageFXData(args, apiKey, env);
+      return fetchAlphavantageFXData(args, apiKey, env, context);
     }
 
     default:
@@ -325,74 +456,126 @@ export async function handleToolCall(name: string, args: unknown, apiKey: string
   }
 }
 
+// All tools served by this server
+const ALL_TOOLS: Tool[] = [
+  // Editor tools
+  READ_FILE_TOOL,
+  WRITE_TO_FILE_TOOL,
+  REPLACE_IN_FILE_TOOL,
+  
+  // Search tools
+  BRAVE_SEARCH_TOOL,
+  TAVILY_SEARCH_TOOL,
+  EXTRACT_TOOL,
+  EXA_SEARCH_TOOL,
+  EXA_CONTENTS_TOOL,
+  
+  // Finance tools
+  ALPHAVANTAGE_FOREX_TOOL,
+  
+  // Calendar tools
+  GET_CALENDAR_EVENTS_TOOL,
+  CREATE_CALENDAR_EVENT_TOOL,
+  DELETE_CALENDAR_EVENT_TOOL,
+  UPDATE_CALENDAR_EVENT_TOOL,
+  
+  // Email tools
+  QUERY_EMAILS_TOOL,
+  GET_EMAIL_TOOL,
+  BULK_GET_EMAILS_TOOL,
+  CREATE_DRAFT_TOOL,
+  DELETE_DRAFT_TOOL,
+  REPLY_EMAIL_TOOL,
+
+  // Image generation tools
+  IMAGE_GENERATE_TOOL,
+  
+  // Fetch tools
+  SCRAPE_TOOL,
+  CLOUDFLARE_FETCH_TOOL,
+  BILIBILI_FETCH_TOOL,
+  
+  // Sandbox tools
+  E2B_LIST_FILES_TOOL,
+  E2B_READ_FILE_TOOL,
+  E2B_WRITE_TO_FILE_TOOL,
+  CODE_TOOL,
+  COMMAND_TOOL,
+];
+
+// Tools that don't require authentication (always available)
+const ALWAYS_AVAILABLE_TOOLS: Tool[] = [
+  CLOUDFLARE_FETCH_TOOL,
+  BILIBILI_FETCH_TOOL
+];
+
+// Integration prefixes accepted in X-Integrations, listed by GET /integrations
+export const INTEGRATIONS = [
+  'google-gmail',
+  'google-calendar',
+  'tavily',
+  'exa',
+  'brave',
+  's3',
+  'e2b',
+  'alphavantage',
+  '302.ai',
+  'image-router',
+  'bilibili',
+  'firecrawl'
+];
+
+/**
+ * Find the integration whose credentials a tool uses
+ * 
+ * @param name - Tool name
+ * @returns Integration prefix, or undefined for tools needing no credentials (fetch)
+ */
+export function getToolIntegration(name: string): string | undefined {
+  return INTEGRATIONS.find(integration => name.startsWith(integration + '-'));
+}
+
+/**
+ * Check whether a tool only reads data, based on its annotations
+ * Tools without annotations are treated as writing
+ * 
+ * @param name - Tool name
+ * @returns True if the tool is annotated as read-only
+ */
+export function isReadOnlyTool(name: string): boolean {
+  const tool = ALL_TOOLS.find(item => item.name === name);
+  const annotations = tool?.annotations as ToolAnnotations | undefined;
+  return annotations?.readOnlyHint === true;
+}
+
 /**
  * Get all available tools
  * 
  * @param integrations - Optional list of integration prefixes to filter tools by
+ * @param readOnly - Only return tools annotated as read-only
  * @returns Array of tool definitions
  */
-export function getTools(integrations?: string[]) {
-  // Get all tools
-  const allTools = [
-    // Editor tools
-    READ_FILE_TOOL,
-    WRITE_TO_FILE_TOOL,
-    REPLACE_IN_FILE_TOOL,
-    
-    // Search tools
-    BRAVE_SEARCH_TOOL,
-    TAVILY_SEARCH_TOOL,
-    EXTRACT_TOOL,
-    EXA_SEARCH_TOOL,
-    EXA_CONTENTS_TOOL,
-    
-    // Finance tools
-    ALPHAVANTAGE_FOREX_TOOL,
-    
-    // Calendar tools
-    GET_CALENDAR_EVENTS_TOOL,
-    CREATE_CALENDAR_EVENT_TOOL,
-    DELETE_CALENDAR_EVENT_TOOL,
-    UPDATE_CALENDAR_EVENT_TOOL,
-    
-    // Email tools
-    QUERY_EMAILS_TOOL,
-    GET_EMAIL_TOOL,
-    BULK_GET_EMAILS_TOOL,
-    CREATE_DRAFT_TOOL,
-    DELETE_DRAFT_TOOL,
-    REPLY_EMAIL_TOOL,
-
-    // Image generation tools
-    IMAGE_GENERATE_TOOL,
-    
-    // Fetch tools
-    SCRAPE_TOOL,
-    CLOUDFLARE_FETCH_TOOL,
-    
-    // Sandbox tools
-    E2B_LIST_FILES_TOOL,
-    E2B_READ_FILE_TOOL,
-    E2B_WRITE_TO_FILE_TOOL,
-    CODE_TOOL,
-    COMMAND_TOOL,
-  ];
-
-  // Get tools that don't require authentication (always available)
-  const alwaysAvailableTools = [
-    CLOUDFLARE_FETCH_TOOL,
-    BILIBILI_FETCH_TOOL
-  ];
+export function getTools(integrations?: string[], readOnly = false) {
+  const tools = getIntegrationTools(integrations);
+  return readOnly ? tools.filter(tool => isReadOnlyTool(tool.name)) : tools;
+}
 
+/**
+ * Get the tools enabled by the integration prefixes
+ * 
+ * @param integrations - Optional list of integration prefixes to filter tools by
+ * @returns Array of tool definitions
+ */
+function getIntegrationTools(integrations?: string[]) {
   // If no integrations specified, return always available tools
   if (!integrations || integrations.length === 0) {
-    return alwaysAvailableTools;
+    return ALWAYS_AVAILABLE_TOOLS;
   }
   
   // Filter other tools based on the integration prefixes
-  const filteredTools = allTools.filter(tool => {
+  const filteredTools = ALL_TOOLS.filter(tool => {
     // Skip tools that are always available
-    if (alwaysAvailableTools.includes(tool)) {
+    if (ALWAYS_AVAILABLE_TOOLS.includes(tool)) {
       return false;
     }
     
@@ -404,5 +587,5 @@ export function getTools(integrations?: string[]) {
   });
   
   // Return always available tools plus filtered tools
-  return [...alwaysAvailableTools, ...filteredTools];
+  return [...ALWAYS_AVAILABLE_TOOLS, ...filteredTools];
 }
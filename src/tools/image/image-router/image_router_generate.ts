@@ -1,6 +1,8 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { Env } from "../../../types/index.js";
+import { Env, ToolContent, ToolContext } from "../../../types/index.js";
 import { uploadToR2, base64ToArrayBuffer } from "../../../utils/r2_utils";
+import { toToolError, upstreamError } from "../../../utils/error_utils";
+import { fetchUpstream } from "../../../utils/upstream_utils";
 
 // Type definitions
 export interface ImageGenerationResponse {
@@ -12,17 +14,27 @@ export interface ImageGenerationResponse {
   created?: number;
 }
 
+// Known image-router models offered for argument completion, the default first
+export const IMAGE_MODELS = [
+  'google/gemini-2.0-flash-exp:free',
+  'openai/gpt-image-1',
+  'openai/dall-e-3',
+  'black-forest-labs/FLUX-1-schnell:free',
+  'stabilityai/sdxl-turbo:free'
+];
+
 /**
  * Save an image to the R2 bucket
  * @param imageData - Base64 encoded image data
- * @param contentType - The image content type
  * @param env - Cloudflare Worker environment
+ * @param owner - Caller id the image is saved for
  * @returns Promise with the URL of the saved image
  */
-async function saveImageToR2(imageData: string, env: Env): Promise<string> {
+async function saveImageToR2(imageData: string, env: Env, owner?: string): Promise<string> {
   return uploadToR2(base64ToArrayBuffer(imageData), env, {
     prefix: 'y-image',
     extension: 'png',
+    owner,
   });
 }
 
@@ -34,6 +46,13 @@ export const IMAGE_GENERATE_TOOL: Tool = {
     "This tool leverages image generation capabilities to create visual content " +
     "from natural language descriptions. Ideal for creating illustrations, " +
     "concept art, or visualizing ideas described in text.",
+  annotations: {
+    title: "Generate Image",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -93,6 +112,7 @@ export function isImageGenerateArgs(args: unknown): args is {
  * @param params - Additional generation parameters
  * @param apiKey - API key for authentication
  * @param env - Cloudflare Worker environment
+ * @param context - Tool context, the caller id scopes saved images and the signal cancels the request
  * @returns Formatted string with image generation results
  */
 export async function performImageGeneration(
@@ -104,8 +124,9 @@ export async function performImageGeneration(
     response_format?: string;
   } = {},
   apiKey: string,
-  env?: Env
-): Promise<string> {
+  env?: Env,
+  context: ToolContext = {}
+): Promise<ToolContent[]> {
   const url = 'https://ir-api.myqa.cc/v1/openai/images/generations';
   
   const requestBody = {
@@ -117,39 +138,39 @@ export async function performImageGeneration(
   };
 
   try {
-    const response = await fetch(url, {
+    const response = await fetchUpstream('image-router', url, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
         'Content-Type': 'application/json'
       },
       body: JSON.stringify(requestBody)
-    });
+    }, context);
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Image generation API error: ${response.status} ${response.statusText} - ${errorText}`);
+      throw await upstreamError('Image generation', response);
     }
 
     const data = await response.json() as ImageGenerationResponse;
-    return await formatImageResults(data, prompt, env);
+    return await formatImageResults(data, prompt, env, context.callerId);
   } catch (error) {
-    return `Error generating image: ${error instanceof Error ? error.message : String(error)}`;
+    throw toToolError(error, 'Error generating image');
   }
 }
 
 /**
- * Formats image generation results into a readable string
- * Also handles saving base64 images to R2 if available
+ * Formats image generation results into content blocks
+ * A text summary comes first, followed by an image block for every base64 image
+ * and a resource link for every image URL (R2 uploads or provider URLs)
  * 
  * @param response - The image generation API response
  * @param prompt - The original prompt used
  * @param env - Cloudflare Worker environment
- * @returns Formatted string with image generation results
+ * @param owner - Caller id saved images are scoped to
+ * @returns Content blocks with image generation results
  */
-async function formatImageResults(response: ImageGenerationResponse, prompt: string, env?: Env): Promise<string> {
+async function formatImageResults(response: ImageGenerationResponse, prompt: string, env?: Env, owner?: string): Promise<ToolContent[]> {
   const output: string[] = [];
-  const imagePromises: Promise<void>[] = [];
 
   output.push(`Image Generation Results for prompt: "${prompt}"`);
   
@@ -158,80 +179,56 @@ async function formatImageResults(response: ImageGenerationResponse, prompt: str
     output.push(`Generated: ${date.toISOString()}`);
   }
   
-  if (response.data && response.data.length > 0) {
-    output.push(`\nGenerated ${response.data.length} image(s):\n`);
-    
-    // First pass to process base64 data and create promises
-    for (let i = 0; i < response.data.length; i++) {
-      const image = response.data[i];
-      const imageIndex = i; // Capture for async use
-      
-      if (image.b64_json) {
-        // Create a promise to save the image and update the output array asynchronously
-        const savePromise = (async () => {
-          try {
-            // Save image to R2 bucket and get the CDN URL
-            if (!env) {
-              throw new Error('Environment not available for R2 storage');
-            }
-            const cdnUrl = await saveImageToR2(image.b64_json!, env);
-            
-            // Create the output entry
-            let imageOutput = `[Image ${imageIndex + 1}]`;
-            if (image.revised_prompt) {
-              imageOutput += `\nRevised prompt: ${image.revised_prompt}`;
-            }
-            imageOutput += `\nURL: ${cdnUrl}`;
-            
-            // Replace the placeholder if it exists, otherwise add to the output
-            const placeholderIndex = output.findIndex(line => 
-              line.includes(`[Image ${imageIndex + 1}] Processing...`));
-            
-            if (placeholderIndex !== -1) {
-              output[placeholderIndex] = imageOutput;
-            } else {
-              output.push(imageOutput);
-            }
-          } catch (error) {
-            // If saving to R2 fails, fall back to showing base64 data (truncated)
-            output.push(
-              `[Image ${imageIndex + 1}]` +
-              (image.revised_prompt ? `\nRevised prompt: ${image.revised_prompt}` : '') +
-              `\nBase64 image data: ${image.b64_json!.substring(0, 30)}... (truncated)` +
-              `\nError saving to CDN: ${error instanceof Error ? error.message : String(error)}`
-            );
-          }
-        })();
-        
-        imagePromises.push(savePromise);
-        
-        // Add a placeholder that will be replaced when the promise resolves
-        output.push(`[Image ${imageIndex + 1}] Processing...`);
-      } else if (image.url) {
-        // Handle image URLs directly (no processing needed)
-        output.push(
-          `[Image ${imageIndex + 1}]` +
-          (image.revised_prompt ? `\nRevised prompt: ${image.revised_prompt}` : '') +
-          `\nURL: ${image.url}`
-        );
-      }
-      
-      // Add separator between results
-      if (i < response.data.length - 1) {
-        output.push('');
-      }
-    }
-    
-    // Wait for all async operations to complete
-    await Promise.all(imagePromises);
-  } else {
+  if (!response.data || response.data.length === 0) {
     output.push('No images were generated.');
+    return [{ type: 'text', text: output.join('\n') }];
   }
 
-  // Remove any remaining processing placeholders
-  const result = output
-    .filter(line => !line.includes('Processing...'))
-    .join('\n');
-  
-  return result;
+  output.push(`\nGenerated ${response.data.length} image(s):\n`);
+
+  // Save base64 images to R2 in parallel, keeping the original order
+  const images = await Promise.all(response.data.map(async (image, index) => {
+    const lines = [`[Image ${index + 1}]`];
+    const blocks: ToolContent[] = [];
+
+    if (image.revised_prompt) {
+      lines.push(`Revised prompt: ${image.revised_prompt}`);
+    }
+
+    if (image.b64_json) {
+      blocks.push({ type: 'image', data: image.b64_json, mimeType: 'image/png' });
+
+      try {
+        // Save image to R2 bucket and get the CDN URL
+        if (!env) {
+          throw new Error('Environment not available for R2 storage');
+        }
+        const cdnUrl = await saveImageToR2(image.b64_json, env, owner);
+        lines.push(`URL: ${cdnUrl}`);
+        blocks.push({
+          type: 'resource_link',
+          uri: cdnUrl,
+          name: cdnUrl.split('/').pop() || `image-${index + 1}.png`,
+          mimeType: 'image/png'
+        });
+      } catch (error) {
+        // The image is still returned inline, only the CDN copy is missing
+        lines.push(`Error saving to CDN: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else if (image.url) {
+      // Handle image URLs directly (no processing needed)
+      lines.push(`URL: ${image.url}`);
+      blocks.push({ type: 'resource_link', uri: image.url, name: `image-${index + 1}` });
+    }
+
+    return { text: lines.join('\n'), blocks };
+  }));
+
+  // Separate results with an empty line
+  output.push(images.map(image => image.text).join('\n\n'));
+
+  return [
+    { type: 'text', text: output.join('\n') },
+    ...images.flatMap(image => image.blocks)
+  ];
 }
@@ -1,6 +1,7 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { Sandbox } from "@e2b/code-interpreter";
-import { createSandbox, formatError, formatResultWithSandboxInfo } from "../../utils/e2b_utils";
+import { createSandbox, pauseSandbox, createOutputProgress, formatResultWithSandboxInfo, pauseAfterFailure, toE2BError, untilAborted } from "../../utils/e2b_utils";
+import { ToolContext } from "../../types/index.js";
 
 // Type definitions for unified code execution
 export interface CodeParams {
@@ -16,6 +17,13 @@ export const CODE_TOOL: Tool = {
     "Provides an isolated runtime for running scripts safely. " +
     "Use this for executing code, testing algorithms, or performing data analysis. " +
     "Supports sandbox persistence - sandbox is automatically paused after each operation and can be resumed using its ID.",
+  annotations: {
+    title: "Run Code in Sandbox",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -73,34 +81,45 @@ export function isCodeArgs(args: unknown): args is CodeParams {
  * 
  * @param params - The code parameters including language
  * @param apiKey - E2B API key
+ * @param context - Tool context used to stream execution output as progress, to stop waiting on cancellation and to report the sandbox
  * @returns Output from the code execution
  */
 export async function executeCode(
   params: CodeParams,
-  apiKey: string
+  apiKey: string,
+  context: ToolContext = {}
 ): Promise<string> {
   let sandbox: Sandbox | null = null;
   
   try {
     // Create or resume a sandbox
-    sandbox = await createSandbox(apiKey, params.sandboxId);
+    sandbox = await createSandbox(apiKey, params.sandboxId, context);
     
     // Store initial sandbox ID
     const initialSandboxId = sandbox.sandboxId;
+    context.reportAffected?.({ sandboxId: initialSandboxId });
     
-    // Execute the code with the specified language
-    const result = await sandbox.runCode(params.code, { language: params.language });
+    // Execute the code with the specified language, forwarding output as progress
+    const onOutput = createOutputProgress(context.onProgress);
+    const result = await untilAborted(sandbox.runCode(params.code, {
+      language: params.language,
+      onStdout: onOutput && (output => onOutput(output.line)),
+      onStderr: onOutput && (output => onOutput(output.line))
+    }), context.signal);
     
     // Format the execution result
     const formattedResult = formatCodeResult(result, params.language);
     
     // Always pause the sandbox after operation
-    const pausedSandboxId = await sandbox.pause();
+    const pausedSandboxId = await pauseSandbox(sandbox, context);
+    context.reportAffected?.({ pausedSandboxId });
     
     // Add sandbox ID information to the result
     return formatResultWithSandboxInfo(formattedResult, initialSandboxId, pausedSandboxId);
   } catch (error) {
-    return formatError(error);
+    // Pause on failures and cancellations too, so the sandbox state is not lost
+    await pauseAfterFailure(sandbox);
+    throw toE2BError(error);
   }
 }
 
@@ -1,6 +1,7 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { Sandbox } from "@e2b/code-interpreter";
-import { createSandbox, formatError, formatResultWithSandboxInfo } from "../../utils/e2b_utils";
+import { createSandbox, pauseSandbox, createOutputProgress, formatResultWithSandboxInfo, pauseAfterFailure, toE2BError, untilAborted } from "../../utils/e2b_utils";
+import { ToolContext } from "../../types/index.js";
 
 // Type definitions for command execution
 export interface CommandParams {
@@ -15,6 +16,13 @@ export const COMMAND_TOOL: Tool = {
     "Provides an isolated runtime for running terminal commands safely. " +
     "Use this for file operations, installing packages, or running CLI tools in a controlled environment. " +
     "Supports sandbox persistence - sandbox is automatically paused after each operation and can be resumed using its ID.",
+  annotations: {
+    title: "Run Command in Sandbox",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -63,34 +71,48 @@ export function isCommandArgs(args: unknown): args is CommandParams {
  * 
  * @param params - The command parameters
  * @param apiKey - E2B API key
+ * @param context - Tool context used to stream command output as progress and to kill the command on cancellation and to report the sandbox
  * @returns Output from the command execution
  */
 export async function executeCommand(
   params: CommandParams,
-  apiKey: string
+  apiKey: string,
+  context: ToolContext = {}
 ): Promise<string> {
   let sandbox: Sandbox | null = null;
   
   try {
     // Create or resume a sandbox
-    sandbox = await createSandbox(apiKey, params.sandboxId);
+    sandbox = await createSandbox(apiKey, params.sandboxId, context);
     
     // Store initial sandbox ID
     const initialSandboxId = sandbox.sandboxId;
+    context.reportAffected?.({ sandboxId: initialSandboxId });
     
-    // Execute the command in the sandbox
-    const result = await sandbox.commands.run(params.command);
+    // Start the command in the sandbox, forwarding output as progress
+    const onOutput = createOutputProgress(context.onProgress);
+    const command = await sandbox.commands.run(params.command, {
+      background: true,
+      onStdout: onOutput,
+      onStderr: onOutput
+    });
+
+    // Kill the command when the call is cancelled
+    const result = await untilAborted(command.wait(), context.signal, () => command.kill());
     
     // Format the command result
     const formattedResult = formatCommandResult(result);
     
     // Always pause the sandbox after operation
-    const pausedSandboxId = await sandbox.pause();
+    const pausedSandboxId = await pauseSandbox(sandbox, context);
+    context.reportAffected?.({ pausedSandboxId });
     
     // Add sandbox ID information to the result
     return formatResultWithSandboxInfo(formattedResult, initialSandboxId, pausedSandboxId);
   } catch (error) {
-    return formatError(error);
+    // Pause on failures and cancellations too, so the sandbox state is not lost
+    await pauseAfterFailure(sandbox);
+    throw toE2BError(error);
   }
 }
 
@@ -1,4 +1,7 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ToolContext } from "../../../types/index.js";
+import { upstreamError } from "../../../utils/error_utils";
+import { fetchUpstream } from "../../../utils/upstream_utils";
 
 // Type definitions
 export interface BraveWeb {
@@ -28,6 +31,11 @@ export const WEB_SEARCH_TOOL: Tool = {
     "Use this for broad information gathering, recent events, or when you need diverse web sources. " +
     "Supports pagination, content filtering, and freshness controls. " +
     "Maximum 20 results per request, with offset for pagination. ",
+  annotations: {
+    title: "Brave Web Search",
+    readOnlyHint: true,
+    openWorldHint: true
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -66,23 +74,24 @@ export function isBraveWebSearchArgs(args: unknown): args is { query: string; co
  * @param query - The search query
  * @param count - Number of results to return (max 20)
  * @param apiKey - Brave API key
+ * @param context - Tool context, its signal aborts the request when the call is cancelled
  * @returns Formatted string with search results
  */
-export async function performWebSearch(query: string, count: number = 10, apiKey: string): Promise<string> {
+export async function performWebSearch(query: string, count: number = 10, apiKey: string, context: ToolContext = {}): Promise<string> {
   const url = new URL('https://api.search.brave.com/res/v1/web/search');
   url.searchParams.set('q', query);
   url.searchParams.set('count', Math.min(count, 20).toString());
 
-  const response = await fetch(url, {
+  const response = await fetchUpstream('brave', url, {
     headers: {
       'Accept': 'application/json',
       'Accept-Encoding': 'gzip',
       'X-Subscription-Token': apiKey
     }
-  });
+  }, context);
 
   if (!response.ok) {
-    throw new Error(`Brave API error: ${response.status} ${response.statusText}`);
+    throw await upstreamError('Brave', response);
   }
 
   const data = await response.json() as BraveWeb;
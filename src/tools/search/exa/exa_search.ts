@@ -1,4 +1,7 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ToolContext } from "../../../types/index.js";
+import { toToolError, upstreamError } from "../../../utils/error_utils";
+import { fetchUpstream } from "../../../utils/upstream_utils";
 
 // Type definitions
 export interface ExaSearchResult {
@@ -14,6 +17,9 @@ export interface ExaSearchResult {
 export interface ExaSearchResponse {
   results: ExaSearchResult[];
   context: string;
+  costDollars?: {
+    total: number;
+  };
 }
 
 // Tool definition
@@ -24,6 +30,11 @@ export const SEARCH_TOOL: Tool = {
     "Returns a formatted context string ready for LLMs with relevant information from the web. " +
     "Ideal for research tasks, information gathering, and staying up-to-date with current information. " +
     "This tool always sets context=true to get formatted results for LLMs.",
+  annotations: {
+    title: "Exa Web Search",
+    readOnlyHint: true,
+    openWorldHint: true
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -81,6 +92,7 @@ export function isExaSearchArgs(args: unknown): args is {
  * @param query - The search query
  * @param params - Additional search parameters
  * @param apiKey - Exa API key
+ * @param context - Tool context, its signal aborts the request when the call is cancelled
  * @returns Original JSON response as a string
  */
 export async function performExaSearch(
@@ -91,7 +103,8 @@ export async function performExaSearch(
     includeDomains?: string[];
     excludeDomains?: string[];
   } = {}, 
-  apiKey: string
+  apiKey: string,
+  context: ToolContext = {}
 ): Promise<string> {
   try {
     // Make a direct HTTP request to Exa API
@@ -118,7 +131,7 @@ export async function performExaSearch(
     }
     
     // Execute the search with fetch API
-    const response = await fetch(url, {
+    const response = await fetchUpstream('exa', url, {
       method: 'POST',
       headers: {
         'accept': 'application/json',
@@ -126,14 +139,16 @@ export async function performExaSearch(
         'x-api-key': apiKey
       },
       body: JSON.stringify(requestBody)
-    });
+    }, context);
     
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Exa API error: ${response.status} ${response.statusText} - ${errorText}`);
+      throw await upstreamError('Exa', response);
     }
     
     const data = await response.json() as ExaSearchResponse;
+    if (data.costDollars) {
+      context.reportCost?.(data.costDollars.total);
+    }
     
     // If the data already contains a context string, return it directly
     if (data.context) {
@@ -144,7 +159,6 @@ export async function performExaSearch(
     return JSON.stringify(data);
   } catch (error) {
     // Handle API errors
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Exa API error: ${errorMessage}`);
+    throw toToolError(error, 'Exa API error');
   }
 }
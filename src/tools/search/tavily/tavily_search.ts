@@ -1,4 +1,7 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { StructuredToolOutput, ToolContext } from "../../../types/index.js";
+import { upstreamError } from "../../../utils/error_utils";
+import { fetchUpstream } from "../../../utils/upstream_utils";
 
 // Type definitions
 export interface TavilySearchResult {
@@ -6,14 +9,14 @@ export interface TavilySearchResult {
   url: string;
   content: string;
   score: number;
-  published_date?: string;
-  raw_content?: string;
+  published_date?: string | null;
+  raw_content?: string | null;
 }
 
 export interface TavilySearchResponse {
   query: string;
-  follow_up_questions?: Array<string>;
-  answer?: string;
+  follow_up_questions?: Array<string> | null;
+  answer?: string | null;
   images?: Array<string | {
     url: string;
     description?: string;
@@ -28,6 +31,11 @@ export const SEARCH_TOOL: Tool = {
     "A powerful web search tool that provides comprehensive, real-time results using Tavily's AI search engine. " +
     "Returns relevant web content with customizable parameters for result count, content type, and domain filtering. " +
     "Ideal for gathering current information, news, and detailed web content analysis.",
+  annotations: {
+    title: "Tavily Web Search",
+    readOnlyHint: true,
+    openWorldHint: true
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -93,6 +101,36 @@ export const SEARCH_TOOL: Tool = {
       }
     },
     required: ["query"]
+  },
+  // Tavily answers null for the answer, follow-up questions and raw content it was not asked for
+  outputSchema: {
+    type: "object",
+    properties: {
+      query: { type: "string" },
+      answer: { type: ["string", "null"] },
+      follow_up_questions: { type: ["array", "null"], items: { type: "string" } },
+      images: {
+        type: "array",
+        description: "Image URLs, or objects with url and description when image descriptions were requested",
+        items: {}
+      },
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            url: { type: "string" },
+            content: { type: "string" },
+            score: { type: "number" },
+            published_date: { type: ["string", "null"] },
+            raw_content: { type: ["string", "null"] }
+          },
+          required: ["title", "url", "content"]
+        }
+      }
+    },
+    required: ["query", "results"]
   }
 };
 
@@ -124,7 +162,8 @@ export function isTavilySearchArgs(args: unknown): args is {
  * @param query - The search query
  * @param params - Additional search parameters
  * @param apiKey - Tavily API key
- * @returns Original JSON response as a string
+ * @param context - Tool context, its signal aborts the request when the call is cancelled
+ * @returns Original JSON response as structured content with a JSON text fallback
  */
 export async function performTavilySearch(
   query: string, 
@@ -140,8 +179,9 @@ export async function performTavilySearch(
     include_domains?: string[];
     exclude_domains?: string[];
   } = {}, 
-  apiKey: string
-): Promise<string> {
+  apiKey: string,
+  context: ToolContext = {}
+): Promise<StructuredToolOutput> {
   const url = 'https://api.tavily.com/search';
   
   // Choose topic based on query if not specified
@@ -170,7 +210,7 @@ export async function performTavilySearch(
     Object.assign(searchParams, { time_range: params.time_range });
   }
 
-  const response = await fetch(url, {
+  const response = await fetchUpstream('tavily', url, {
     method: 'POST',
     headers: {
       'accept': 'application/json',
@@ -178,13 +218,15 @@ export async function performTavilySearch(
       'x-api-key': apiKey
     },
     body: JSON.stringify(searchParams)
-  });
+  }, context);
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Tavily API error: ${response.status} ${response.statusText} - ${errorText}`);
+    throw await upstreamError('Tavily', response);
   }
 
   const data = await response.json() as TavilySearchResponse;
-  return JSON.stringify(data);
+  return {
+    structuredContent: { ...data },
+    text: JSON.stringify(data)
+  };
 }
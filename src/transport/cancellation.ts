@@ -0,0 +1,79 @@
+/**
+ * Cancellation of in-flight requests
+ * Every request handled by the transport registers an AbortController here so a
+ * later notifications/cancelled can abort it. In stateful mode each session owns
+ * a registry, and because every request of a session is routed to the same
+ * Durable Object, cancellations always reach the request they refer to.
+ * Stateless requests share a registry per isolate, so a cancellation only takes
+ * effect when it lands on the isolate serving the original request
+ */
+import { RequestId } from "@modelcontextprotocol/sdk/types.js";
+
+export class InFlightRequests {
+  private readonly controllers = new Map<string, AbortController>();
+
+  /**
+   * Register a request and return the controller aborting it
+   *
+   * @param key - Key built with inFlightKey
+   * @param parent - Optional signal whose abort also aborts the request (client disconnects)
+   * @returns Controller for the request
+   */
+  start(key: string, parent?: AbortSignal): AbortController {
+    const controller = new AbortController();
+    if (parent?.aborted) {
+      controller.abort(parent.reason);
+    } else {
+      parent?.addEventListener("abort", () => controller.abort(parent.reason), { once: true });
+    }
+    this.controllers.set(key, controller);
+    return controller;
+  }
+
+  /**
+   * Unregister a request once it completed
+   * A newer request reusing the same id keeps its registration
+   */
+  finish(key: string, controller: AbortController): void {
+    if (this.controllers.get(key) === controller) {
+      this.controllers.delete(key);
+    }
+  }
+
+  /**
+   * Abort an in-flight request
+   *
+   * @param key - Key built with inFlightKey
+   * @param reason - Reason given by the client, if any
+   * @returns True if a matching request was found
+   */
+  cancel(key: string, reason?: string): boolean {
+    const controller = this.controllers.get(key);
+    if (!controller) {
+      return false;
+    }
+    controller.abort(new RequestCancelledError(reason));
+    this.controllers.delete(key);
+    return true;
+  }
+}
+
+// Reason attached to signals aborted by a client cancellation
+export class RequestCancelledError extends Error {
+  constructor(reason?: string) {
+    super(reason ? `Request cancelled: ${reason}` : "Request cancelled");
+    this.name = "RequestCancelledError";
+  }
+}
+
+/**
+ * Build the registry key of a request
+ * Request ids are only unique per client, so they are scoped to the caller
+ *
+ * @param callerId - Stable id derived from the caller's token
+ * @param requestId - JSON-RPC request id
+ * @returns Registry key
+ */
+export function inFlightKey(callerId: string | undefined, requestId: RequestId): string {
+  return `${callerId ?? "anonymous"}:${typeof requestId}:${requestId}`;
+}
@@ -0,0 +1,106 @@
+/**
+ * Requests sent from the server to the client, such as elicitation/create and
+ * sampling/createMessage
+ * The request is written to the SSE stream of the call that needs it, and the
+ * client answers with a JSON-RPC response in a separate POST. Only stateful
+ * sessions route that POST to the Durable Object waiting for it, so server
+ * requests are never sent in stateless mode
+ */
+import {
+  ErrorCode,
+  JSONRPCError,
+  JSONRPCMessage,
+  JSONRPCResponse,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// Time a client has to answer before the request fails
+const DEFAULT_CLIENT_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface PendingRequest {
+  resolve(result: unknown): void;
+  reject(error: Error): void;
+}
+
+export class ClientRequests {
+  private readonly pending = new Map<string, PendingRequest>();
+
+  /**
+   * Send a request to the client and wait for its response
+   *
+   * @param method - JSON-RPC method, e.g. elicitation/create
+   * @param params - Request params
+   * @param send - Writes the request to the client
+   * @param signal - Aborts waiting when the originating call is cancelled
+   * @param timeoutMs - Time the client has to answer
+   * @returns Result of the client's response
+   */
+  request(
+    method: string,
+    params: Record<string, unknown>,
+    send: (message: JSONRPCMessage) => void,
+    signal?: AbortSignal,
+    timeoutMs = DEFAULT_CLIENT_REQUEST_TIMEOUT_MS
+  ): Promise<unknown> {
+    const id = `server-${crypto.randomUUID()}`;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason instanceof Error ? signal.reason : new Error(`${method} was aborted`));
+        return;
+      }
+
+      const cleanup = () => {
+        this.pending.delete(id);
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      // Stop waiting and let the client drop a request nobody waits for anymore
+      const abandon = (error: Error) => {
+        cleanup();
+        send({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: id, reason: error.message } });
+        reject(error);
+      };
+      const onAbort = () => {
+        abandon(signal?.reason instanceof Error ? signal.reason : new Error(`${method} was aborted`));
+      };
+      const timer = setTimeout(() => {
+        abandon(new McpError(ErrorCode.RequestTimeout, `Client did not answer ${method} within ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: result => {
+          cleanup();
+          resolve(result);
+        },
+        reject: error => {
+          cleanup();
+          reject(error);
+        },
+      });
+      send({ jsonrpc: "2.0", id, method, params });
+    });
+  }
+
+  /**
+   * Settle the pending request a client response refers to
+   *
+   * @param message - Response or error sent by the client
+   * @returns Whether a pending request matched the response
+   */
+  settle(message: JSONRPCResponse | JSONRPCError): boolean {
+    const pending = this.pending.get(String(message.id));
+    if (!pending) {
+      return false;
+    }
+
+    if ("error" in message) {
+      pending.reject(new McpError(message.error.code, message.error.message, message.error.data));
+    } else {
+      pending.resolve(message.result);
+    }
+    return true;
+  }
+}
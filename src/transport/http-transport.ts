@@ -1,47 +1,236 @@
 import {
   CallToolRequestSchema,
+  CancelledNotificationSchema,
+  CreateMessageResultSchema,
   ErrorCode,
   InitializeRequestSchema,
   isInitializeRequest,
+  isJSONRPCError,
+  isJSONRPCNotification,
   isJSONRPCRequest,
+  isJSONRPCResponse,
   JSONRPCError,
   JSONRPCMessage,
+  JSONRPCNotification,
   JSONRPCRequest,
   JSONRPCResponse,
+  LoggingLevel,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
-import { Env } from "../types/index";
-import { handleToolCall, getTools } from "../tools/handler";
+import { ElicitCallback, ElicitResult, Env, ExecutionContext, ProgressCallback, SampleCallback, SessionHandle, ToolContext } from "../types/index";
+import { handleToolCall, getTools, getToolIntegration, INTEGRATIONS, isReadOnlyTool, isValidToolCall } from "../tools/handler";
+import { getResourceTemplates, listResources, readResource } from "../resources/handler";
+import { getE2BSandboxId } from "../resources/e2b_files";
+import { getPrompt, getPrompts } from "../prompts/handler";
+import { complete, CompletionReference } from "../completions/handler";
+import { getCallerId } from "../utils/crypto_utils";
+import {
+  credentialHeaderName,
+  CREDENTIALS_HEADER,
+  InvalidCredentialsError,
+  RequestCredentials,
+} from "../auth/credentials";
+import { authenticateRequest, isOAuthEnabled, OAuthNotConfiguredError, TokenGrant, wwwAuthenticate } from "../auth/oauth";
+import {
+  checkRateLimit,
+  getRateLimitKey,
+  RATE_LIMIT_EXCEEDED,
+  rateLimitHeaders,
+  RateLimitStatus,
+  retryAfterSeconds,
+} from "../ratelimit/rate_limits";
+import { toToolError } from "../utils/error_utils";
+import { DEFAULT_CLIENT_LOG_LEVEL, REQUEST_ID_HEADER, RequestLogger, resolveRequestId } from "../utils/log_utils";
+import { KeyedMutex, mapConcurrent } from "../utils/concurrency_utils";
+import { InFlightRequests, inFlightKey } from "./cancellation";
+import { ClientRequests } from "./client_requests";
+import { getPageSize, listFingerprint, paginate } from "./pagination";
+import {
+  adaptToolForVersion,
+  adaptToolResultForVersion,
+  DEFAULT_PROTOCOL_VERSION,
+  isSupportedProtocolVersion,
+  negotiateProtocolVersion,
+  PROTOCOL_VERSION_HEADER,
+  supportsFeature,
+  toToolCallResult,
+  toToolErrorResult,
+  ToolCallResultPayload,
+} from "./protocol";
+
+// Per-request values resolved from the HTTP request
+interface RequestScope {
+  env: Env;
+  // Id of the HTTP request, added to every log entry and sent upstream
+  requestId: string;
+  // Secrets of the integrations, tools only receive the one of their own integration
+  credentials: RequestCredentials;
+  integrations: string[];
+  // Negotiated protocol version the response must conform to
+  protocolVersion: string;
+  // Stable id derived from the credentials, undefined for anonymous callers
+  callerId?: string;
+  // User the OAuth access token was issued to, when OAuth is enabled
+  userId?: string;
+  // Only tools annotated as read-only may be listed and called
+  readOnly: boolean;
+  // Minimum level of log messages forwarded to the client
+  logLevel: LoggingLevel;
+  // Limiter the tool calls are counted against, see getRateLimitKey
+  rateLimitKey: string;
+  // Rate limit statuses of the tool calls answered so far, reported in the response headers
+  rateLimits: RateLimitStatus[];
+  // Rate limit check of each tool call, so a call checked before its stream opened is not counted twice
+  rateLimitChecks: Map<JSONRPCRequest, Promise<RateLimitStatus | undefined>>;
+  // Keeps the Worker or Durable Object running for writes made after the response
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+// In-flight requests of stateless transports in this isolate
+const statelessRequests = new InFlightRequests();
+
+// Log levels set by identified stateless callers, in order of last use
+const statelessLogLevels = new Map<string, LoggingLevel>();
+
+// Most stateless callers whose log level is kept, the least recently used is forgotten first
+const MAX_STATELESS_LOG_LEVELS = 1000;
+
+// Request headers allowed cross-origin, including one credential header per integration
+const CORS_ALLOWED_HEADERS = [
+  "Content-Type",
+  "Authorization",
+  "X-Integrations",
+  "X-Read-Only",
+  CREDENTIALS_HEADER,
+  ...INTEGRATIONS.map(credentialHeaderName),
+  "Mcp-Session-Id",
+  "MCP-Protocol-Version",
+  REQUEST_ID_HEADER,
+].join(", ");
+
+// Number of batched requests executed at once when BATCH_CONCURRENCY is not set
+const DEFAULT_BATCH_CONCURRENCY = 4;
+
+// Keeps calls on the same E2B sandbox from racing each other's resume and pause
+const sandboxLocks = new KeyedMutex();
 
 /**
  * Streamable HTTP transport for Cloudflare Workers
- * Truly stateless implementation without session management
- * No class-level state is maintained between requests
+ * Stateless by default: no class-level state is maintained between requests
+ * When constructed with a session handle (stateful mode, see McpSessionObject)
+ * the negotiated state is persisted and Mcp-Session-Id is echoed back
+ * Responses are sent as a single JSON body, or over SSE when the client
+ * accepts text/event-stream so progress notifications can be streamed
+ * Requests in flight can be aborted with notifications/cancelled, and tools see
+ * the cancellation through the signal of their ToolContext
+ * Sessions can also ask the user for input with elicitation/create, and the
+ * client's model for completions with sampling/createMessage, while a streamed
+ * tool call is running
  */
 export class StreamableHTTPServerTransport {
   onclose?: () => void;
   onerror?: (error: Error) => void;
   onmessage?: (message: JSONRPCMessage) => void;
 
-  async handleRequest(request: Request, env: Env): Promise<Response> {
+  constructor(
+    private readonly session?: SessionHandle,
+    // Sessions pass their own registry so cancellations reach their requests
+    private readonly inFlight: InFlightRequests = statelessRequests,
+    // Requests sent to the client, only available to sessions
+    private readonly clientRequests?: ClientRequests
+  ) {}
+
+  /**
+   * Handle an HTTP request to the MCP endpoint
+   *
+   * @param request - Incoming request
+   * @param env - Worker environment
+   * @param ctx - Execution context of the Worker, or the state of the session's Durable Object
+   * @returns The response
+   */
+  async handleRequest(request: Request, env: Env, ctx?: Pick<ExecutionContext, "waitUntil">): Promise<Response> {
     // Handle CORS preflight
     if (request.method === "OPTIONS") {
       return new Response(null, {
         headers: {
           "Access-Control-Allow-Origin": "*",
           "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
-          "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Integrations",
+          "Access-Control-Allow-Headers": CORS_ALLOWED_HEADERS,
+          "Access-Control-Expose-Headers": `Mcp-Session-Id, WWW-Authenticate, ${REQUEST_ID_HEADER}`,
         },
       });
     }
 
-    // Extract Bearer token from Authorization header
-    let token = "";
-    const authHeader = request.headers.get("Authorization");
-    if (authHeader && authHeader.startsWith("Bearer ")) {
-      token = authHeader.substring(7); // Remove 'Bearer ' prefix
+    const requestId = resolveRequestId(request);
+    const response = await this.dispatchRequest(request, env, requestId, ctx);
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+
+    // Echo the session id so clients can pick it up from the initialize response,
+    // a session whose initialize failed was never created
+    if (this.session?.state) {
+      response.headers.set("Mcp-Session-Id", this.session.id);
+    }
+
+    return response;
+  }
+
+  private async dispatchRequest(request: Request, env: Env, requestId: string, ctx?: Pick<ExecutionContext, "waitUntil">): Promise<Response> {
+    // With OAuth enabled the Bearer token must be an access token issued by this server
+    let userId: string | undefined;
+    if (isOAuthEnabled(env)) {
+      let grant: TokenGrant | undefined;
+      try {
+        grant = await authenticateRequest(request, env);
+      } catch (error) {
+        if (error instanceof OAuthNotConfiguredError) {
+          return this.errorResponse(501, {
+            code: ErrorCode.InternalError,
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+      if (!grant) {
+        return this.errorResponse(401, {
+          code: -32000,
+          message: "Unauthorized: A valid OAuth access token is required",
+        }, {
+          "WWW-Authenticate": wwwAuthenticate(request),
+          "Access-Control-Allow-Origin": "*",
+          "Access-Control-Expose-Headers": `WWW-Authenticate, ${REQUEST_ID_HEADER}`,
+        });
+      }
+      userId = grant.userId;
+
+      // Sessions belong to the user that initialized them
+      if (this.session?.state && this.session.state.userId !== userId) {
+        return this.errorResponse(404, {
+          code: -32001,
+          message: "Session not found",
+        });
+      }
+    }
+
+    // Resolve the per-integration credentials, the vault and the Bearer token
+    let credentials: RequestCredentials;
+    try {
+      credentials = await RequestCredentials.fromRequest(request, env, userId);
+    } catch (error) {
+      if (error instanceof InvalidCredentialsError) {
+        return this.errorResponse(error.status, {
+          code: -32000,
+          message: `${error.status === 401 ? "Unauthorized" : "Bad Request"}: ${error.message}`,
+        });
+      }
+      throw error;
     }
     
     // Extract integrations from X-Integrations header
@@ -50,11 +239,39 @@ export class StreamableHTTPServerTransport {
       integrationsHeader.split(',').map((i: string) => i.trim()).filter(Boolean) : 
       [];
 
+    // Resolve the protocol version this request is made under
+    const protocolVersion = this.resolveProtocolVersion(request);
+    if (!protocolVersion) {
+      return this.errorResponse(400, {
+        code: -32000,
+        message: `Bad Request: Unsupported or mismatched ${PROTOCOL_VERSION_HEADER} header`,
+      });
+    }
+
+    const callerId = await getCallerId(credentials.identity());
+    const scope: RequestScope = {
+      env,
+      requestId,
+      credentials,
+      integrations,
+      protocolVersion,
+      callerId,
+      userId,
+      // Read-only mode is enforced server wide or requested by the client
+      readOnly: env.READ_ONLY_MODE === "true" || request.headers.get("X-Read-Only") === "true",
+      logLevel: DEFAULT_CLIENT_LOG_LEVEL,
+      rateLimitKey: getRateLimitKey(request, callerId),
+      rateLimits: [],
+      rateLimitChecks: new Map(),
+      waitUntil: ctx && (promise => ctx.waitUntil(promise)),
+    };
+    scope.logLevel = this.getLogLevel(scope.callerId);
+
     switch (request.method) {
       case "GET":
         return this.handleGetRequest(request);
       case "POST":
-        return this.handlePostRequest(request, env, token, integrations);
+        return this.handlePostRequest(request, scope);
       case "DELETE":
         return this.handleDeleteRequest();
       default:
@@ -67,7 +284,61 @@ export class StreamableHTTPServerTransport {
     }
   }
 
-  private async handlePostRequest(request: Request, env: Env, token: string, integrations: string[]): Promise<Response> {
+  /**
+   * Determine the protocol version for a request
+   * Uses the version negotiated for the session in stateful mode, otherwise
+   * the MCP-Protocol-Version header, falling back to the spec default
+   *
+   * @returns The protocol version, or undefined if the header is invalid
+   */
+  private resolveProtocolVersion(request: Request): string | undefined {
+    const header = request.headers.get(PROTOCOL_VERSION_HEADER);
+    if (header && !isSupportedProtocolVersion(header)) {
+      return undefined;
+    }
+
+    const negotiated = this.session?.state?.protocolVersion;
+    if (negotiated) {
+      return !header || header === negotiated ? negotiated : undefined;
+    }
+
+    return header || DEFAULT_PROTOCOL_VERSION;
+  }
+
+  /**
+   * Look up the level set with logging/setLevel
+   * Sessions persist it in their state, identified stateless callers in isolate memory
+   */
+  private getLogLevel(callerId?: string): LoggingLevel {
+    if (this.session) {
+      return this.session.state?.logLevel ?? DEFAULT_CLIENT_LOG_LEVEL;
+    }
+    const level = callerId ? statelessLogLevels.get(callerId) : undefined;
+    if (!callerId || !level) {
+      return DEFAULT_CLIENT_LOG_LEVEL;
+    }
+    // Move the caller to the back of the eviction order
+    statelessLogLevels.delete(callerId);
+    statelessLogLevels.set(callerId, level);
+    return level;
+  }
+
+  /**
+   * Remember the level a stateless caller set with logging/setLevel
+   * Anonymous callers cannot be told apart, so no level is kept for them
+   */
+  private setStatelessLogLevel(callerId: string | undefined, level: LoggingLevel): void {
+    if (!callerId) {
+      return;
+    }
+    statelessLogLevels.delete(callerId);
+    statelessLogLevels.set(callerId, level);
+    if (statelessLogLevels.size > MAX_STATELESS_LOG_LEVELS) {
+      statelessLogLevels.delete(statelessLogLevels.keys().next().value!);
+    }
+  }
+
+  private async handlePostRequest(request: Request, scope: RequestScope): Promise<Response> {
     if (!request.headers.get("content-type")?.includes("application/json")) {
       return this.errorResponse(415, {
         code: -32000,
@@ -82,7 +353,7 @@ export class StreamableHTTPServerTransport {
       // Handle initialization
       const isInitializationRequest = messages.some(isInitializeRequest);
       
-      // In serverless environments, we accept initialization with each request
+      // In stateless mode, we accept initialization with each request
       // We still enforce that initialization requests can't be batched with other requests
       if (isInitializationRequest && messages.length > 1) {
         return this.errorResponse(400, {
@@ -91,27 +362,50 @@ export class StreamableHTTPServerTransport {
         });
       }
 
+      // Abort the requests the client cancelled and settle answered server requests
+      for (const message of messages) {
+        this.handleClientMessage(message, scope);
+      }
+
       // Process messages
       const hasRequests = messages.some(isJSONRPCRequest);
       if (!hasRequests) {
         return new Response(null, { status: 202 });
       }
 
-      // Handle requests
-      const responses: JSONRPCMessage[] = [];
-      for (const message of messages) {
-        if (isJSONRPCRequest(message)) {
-          const response = await this.handleJsonRpcRequest(message, env, token, integrations);
-          responses.push(response);
-          if (this.onmessage) {
-            this.onmessage(message);
-          }
+      // Stream responses over SSE when the client can take them. Initializing a
+      // session is answered in the body, so the session id is only sent once it succeeded
+      const requests = messages.filter(isJSONRPCRequest);
+      if (!(this.session && isInitializationRequest) && this.shouldStream(request, requests)) {
+        // The headers are sent before any tool runs, so the tool calls are checked against the rate limits first
+        const rateLimits = await Promise.all(requests
+          .filter(message => this.isRateLimitedCall(message, scope))
+          .map(message => this.checkToolRateLimit(message, scope)));
+        return this.handleStreamingRequests(requests, scope,
+          rateLimitHeaders(rateLimits.filter((status): status is RateLimitStatus => !!status)));
+      }
+
+      // Handle requests concurrently, keeping the responses in request order
+      // and dropping the responses of cancelled ones
+      const results = await mapConcurrent(requests, this.getBatchConcurrency(scope.env), async message => {
+        const response = await this.runRequest(message, scope, {
+          logger: this.createLogger(message, scope),
+        }, request.signal);
+        if (this.onmessage) {
+          this.onmessage(message);
         }
+        return response;
+      });
+      const responses = results.filter((response): response is JSONRPCResponse | JSONRPCError => !!response);
+
+      if (responses.length === 0) {
+        return new Response(null, { status: 202 });
       }
 
-      // Return responses
+      // Return responses, with the remaining quota of the rate limited tool calls
       const headers = new Headers({
         "Content-Type": "application/json",
+        ...rateLimitHeaders(scope.rateLimits),
       });
 
       return new Response(
@@ -128,27 +422,323 @@ export class StreamableHTTPServerTransport {
     }
   }
 
+  /**
+   * Decide whether to answer with an SSE stream instead of a JSON body
+   * Clients accepting only SSE always get a stream; clients accepting both
+   * get one when a request carries a progressToken, so plain JSON clients
+   * keep receiving the buffered response they expect
+   */
+  private shouldStream(request: Request, requests: JSONRPCRequest[]): boolean {
+    const accept = request.headers.get("accept") || "";
+    if (!accept.includes("text/event-stream")) {
+      return false;
+    }
+    if (!accept.includes("application/json")) {
+      return true;
+    }
+    return requests.some(message => message.params?._meta?.progressToken !== undefined);
+  }
+
+  /**
+   * Open an SSE response and process the requests in the background
+   * Progress notifications are written as the tools report them, and each
+   * JSON-RPC response is written as soon as its request completes, so batched
+   * responses may arrive out of order and are matched by id
+   * Closing the stream from the client side aborts the pending requests
+   */
+  private handleStreamingRequests(requests: JSONRPCRequest[], scope: RequestScope, headers: Record<string, string>): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+    const disconnect = new AbortController();
+    let closed = false;
+
+    const onDisconnect = () => {
+      // The client went away, stop writing and abort the pending requests
+      closed = true;
+      disconnect.abort(new Error("Client disconnected"));
+    };
+    writer.closed.catch(onDisconnect);
+
+    const send = (message: JSONRPCMessage) => {
+      if (closed) {
+        return;
+      }
+      writer.write(encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`)).catch(onDisconnect);
+    };
+
+    const processRequests = async () => {
+      try {
+        await mapConcurrent(requests, this.getBatchConcurrency(scope.env), async message => {
+          const response = await this.runRequest(message, scope, {
+            onProgress: this.createProgressCallback(message, scope.protocolVersion, send),
+            logger: this.createLogger(message, scope, send),
+            elicit: this.createElicitCallback(scope, send),
+            sample: this.createSampleCallback(send),
+          }, disconnect.signal);
+          if (response) {
+            send(response);
+          }
+          if (this.onmessage) {
+            this.onmessage(message);
+          }
+        });
+      } catch (error) {
+        if (this.onerror) {
+          this.onerror(error instanceof Error ? error : new Error(String(error)));
+        }
+      } finally {
+        closed = true;
+        await writer.close().catch(() => {});
+      }
+    };
+
+    // Keep processing after the response headers have been sent
+    processRequests();
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        ...headers,
+      },
+    });
+  }
+
+  /**
+   * Build a progress callback that emits notifications/progress for a request
+   * Returns undefined when the request did not include a progressToken
+   * Progress messages are only included for protocol versions that allow them
+   */
+  private createProgressCallback(request: JSONRPCRequest, protocolVersion: string, send: (message: JSONRPCMessage) => void): ProgressCallback | undefined {
+    const progressToken = request.params?._meta?.progressToken;
+    if (progressToken === undefined) {
+      return undefined;
+    }
+
+    const includeMessage = supportsFeature(protocolVersion, "progressMessages");
+
+    return (progress: number, total?: number, message?: string) => {
+      const notification: JSONRPCNotification = {
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress,
+          ...(total !== undefined && { total }),
+          ...(includeMessage && message !== undefined && { message }),
+        },
+      };
+      send(notification);
+    };
+  }
+
+  /**
+   * Build the logger for a request
+   * Entries always go to the console; they are also sent to the client as
+   * notifications/message when the response is streamed
+   */
+  private createLogger(request: JSONRPCRequest, scope: RequestScope, send?: (message: JSONRPCMessage) => void): RequestLogger {
+    const sink = send && ((level: LoggingLevel, logger: string, data: Record<string, unknown>) => {
+      send({
+        jsonrpc: "2.0",
+        method: "notifications/message",
+        params: { level, logger, data },
+      });
+    });
+
+    return new RequestLogger("y-server", sink, scope.logLevel, {
+      requestId: scope.requestId,
+      rpcId: request.id,
+      method: request.method,
+    });
+  }
+
+  /**
+   * Build the callback sending elicitation/create to the client
+   * Returns undefined unless the session's client declared the elicitation
+   * capability under a protocol version that has it, since the answer has to
+   * reach this session's Durable Object
+   */
+  private createElicitCallback(scope: RequestScope, send: (message: JSONRPCMessage) => void): ElicitCallback | undefined {
+    const capabilities = this.session?.state?.clientCapabilities as { elicitation?: object } | undefined;
+    if (!this.clientRequests || !capabilities?.elicitation || !supportsFeature(scope.protocolVersion, "elicitation")) {
+      return undefined;
+    }
+
+    const clientRequests = this.clientRequests;
+    return async (message, requestedSchema, signal) => {
+      const result = await clientRequests.request("elicitation/create", { message, requestedSchema }, send, signal) as Partial<ElicitResult> | undefined;
+      if (result?.action !== "accept" && result?.action !== "decline" && result?.action !== "cancel") {
+        throw new McpError(ErrorCode.InvalidParams, "Invalid elicitation result from client");
+      }
+      return { action: result.action, content: result.content };
+    };
+  }
+
+  /**
+   * Build the callback sending sampling/createMessage to the client
+   * Returns undefined unless the session's client declared the sampling capability
+   */
+  private createSampleCallback(send: (message: JSONRPCMessage) => void): SampleCallback | undefined {
+    if (!this.clientRequests || !this.session?.state?.clientCapabilities.sampling) {
+      return undefined;
+    }
+
+    const clientRequests = this.clientRequests;
+    return async ({ prompt, systemPrompt, maxTokens }, signal) => {
+      const result = CreateMessageResultSchema.safeParse(await clientRequests.request("sampling/createMessage", {
+        messages: [{ role: "user", content: { type: "text", text: prompt } }],
+        ...(systemPrompt && { systemPrompt }),
+        maxTokens,
+        includeContext: "none",
+        // Condensing text does not need the most capable model
+        modelPreferences: { costPriority: 0.8, speedPriority: 0.8, intelligencePriority: 0.3 },
+      }, send, signal));
+      if (!result.success || result.data.content.type !== "text") {
+        throw new McpError(ErrorCode.InvalidParams, "Invalid sampling result from client, expected text content");
+      }
+      return result.data.content.text;
+    };
+  }
+
+  /**
+   * Apply a client notification or a response to a server request
+   * notifications/cancelled aborts the referenced request, and responses settle
+   * the pending elicitation or sampling request they answer
+   */
+  private handleClientMessage(message: JSONRPCMessage, scope: RequestScope): void {
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      this.clientRequests?.settle(message);
+      return;
+    }
+    if (!isJSONRPCNotification(message)) {
+      return;
+    }
+
+    const cancelled = CancelledNotificationSchema.safeParse(message);
+    if (cancelled.success) {
+      const { requestId, reason } = cancelled.data.params;
+      this.inFlight.cancel(inFlightKey(scope.callerId, requestId), reason);
+    }
+  }
+
+  /**
+   * Handle a request while it is registered as in flight
+   * The request is aborted by a matching notifications/cancelled or when the
+   * parent signal fires, and per the spec no response is sent once cancelled
+   * Calls on the same E2B sandbox wait for each other, and unexpected failures
+   * become an error response for this request only, leaving the rest of a batch intact
+   *
+   * @param parent - Signal aborted when the client disconnects
+   * @returns The JSON-RPC response, or undefined if the request was cancelled
+   */
+  private async runRequest(request: JSONRPCRequest, scope: RequestScope, context: ToolContext, parent?: AbortSignal): Promise<JSONRPCResponse | JSONRPCError | undefined> {
+    const key = inFlightKey(scope.callerId, request.id);
+    const controller = this.inFlight.start(key, parent);
+
+    const handle = async () => {
+      // Skip requests cancelled while waiting for their sandbox
+      if (controller.signal.aborted) {
+        return undefined;
+      }
+      return this.handleJsonRpcRequest(request, scope, { ...context, signal: controller.signal });
+    };
+
+    try {
+      const sandboxKey = this.getSandboxKey(request, scope);
+      const response = await (sandboxKey ? sandboxLocks.run(sandboxKey, handle) : handle());
+      return controller.signal.aborted ? undefined : response;
+    } catch (error) {
+      return {
+        jsonrpc: "2.0",
+        error: {
+          code: ErrorCode.InternalError,
+          message: String(error),
+        },
+        id: request.id,
+      };
+    } finally {
+      this.inFlight.finish(key, controller);
+    }
+  }
+
+  /**
+   * Key of the E2B sandbox a request resumes and pauses, if it names one
+   * That is the sandboxId argument of tool calls and of the completion context,
+   * and the sandbox of e2b:// resources being read
+   * Sandboxes are scoped to the caller since sandbox ids come from their API key
+   */
+  private getSandboxKey(request: JSONRPCRequest, scope: RequestScope): string | undefined {
+    const params = request.params as {
+      arguments?: { sandboxId?: unknown };
+      context?: { arguments?: { sandboxId?: unknown } };
+      uri?: unknown;
+    } | undefined;
+
+    let sandboxId: unknown;
+    switch (request.method) {
+      case "tools/call":
+        sandboxId = params?.arguments?.sandboxId;
+        break;
+      case "completion/complete":
+        sandboxId = params?.context?.arguments?.sandboxId;
+        break;
+      case "resources/read":
+        sandboxId = typeof params?.uri === "string" ? getE2BSandboxId(params.uri) : undefined;
+        break;
+    }
+
+    return typeof sandboxId === "string" && sandboxId
+      ? `${scope.callerId ?? "anonymous"}:${sandboxId}`
+      : undefined;
+  }
+
+  /**
+   * Whether a request is a tool call that reaches the rate limiter
+   * Calls of unknown tools, with invalid arguments or rejected by read-only mode are not counted
+   */
+  private isRateLimitedCall(request: JSONRPCRequest, scope: RequestScope): boolean {
+    if (request.method !== "tools/call") {
+      return false;
+    }
+    const params = request.params as { name?: unknown; arguments?: unknown } | undefined;
+    return typeof params?.name === "string"
+      && isValidToolCall(params.name, params.arguments)
+      && !(scope.readOnly && !isReadOnlyTool(params.name));
+  }
+
+  /**
+   * Check a tool call against the caller's rate limits, once per request
+   * Streamed responses check their calls before the stream opens, and the
+   * calls then reuse that result
+   */
+  private checkToolRateLimit(request: JSONRPCRequest, scope: RequestScope): Promise<RateLimitStatus | undefined> {
+    let check = scope.rateLimitChecks.get(request);
+    if (!check) {
+      const { name } = request.params as { name: string };
+      check = checkRateLimit(scope.env, scope.rateLimitKey, name);
+      scope.rateLimitChecks.set(request, check);
+    }
+    return check;
+  }
+
+  /**
+   * Read the number of batched requests executed at once
+   */
+  private getBatchConcurrency(env: Env): number {
+    const limit = Number(env.BATCH_CONCURRENCY);
+    return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_BATCH_CONCURRENCY;
+  }
+
   private async handleGetRequest(request: Request): Promise<Response> {
     const url = new URL(request.url);
     
     if (url.pathname === "/integrations") {
       // Return the list of available integrations
-      const availableIntegrations = [
-        'google-gmail',
-        'google-calendar',
-        'tavily',
-        'exa',
-        'brave',
-        's3',
-        'e2b',
-        'alphavantage',
-        '302.ai',
-        'image-router',
-        'bilibili'
-      ];
-      
       return new Response(
-        JSON.stringify({ integrations: availableIntegrations }),
+        JSON.stringify({ integrations: INTEGRATIONS }),
         { 
           status: 200,
           headers: {
@@ -174,22 +764,49 @@ export class StreamableHTTPServerTransport {
     return new Response(null, { status: 200 });
   }
 
-  private async handleJsonRpcRequest(request: JSONRPCRequest, env: Env, token: string, integrations: string[]): Promise<JSONRPCResponse | JSONRPCError> {
+  private async handleJsonRpcRequest(request: JSONRPCRequest, scope: RequestScope, context: ToolContext = {}): Promise<JSONRPCResponse | JSONRPCError> {
+    const { env, credentials, integrations, protocolVersion, callerId, userId, readOnly } = scope;
+
     try {
       switch (request.method) {
         case "initialize": {
-          InitializeRequestSchema.parse(request);
-          
+          const { params } = InitializeRequestSchema.parse(request);
+          const negotiatedVersion = negotiateProtocolVersion(params.protocolVersion);
+
+          // A stateful session can only be initialized once
+          if (this.session) {
+            if (this.session.state) {
+              throw new McpError(ErrorCode.InvalidRequest, "Session already initialized");
+            }
+            const now = Date.now();
+            await this.session.save({
+              protocolVersion: negotiatedVersion,
+              clientCapabilities: params.capabilities,
+              clientInfo: params.clientInfo,
+              createdAt: now,
+              lastActivityAt: now,
+              ...(userId && { userId }),
+            });
+          }
+
           return {
             jsonrpc: "2.0",
             id: request.id,
             result: {
-              protocolVersion: "2024-11-05",
+              protocolVersion: negotiatedVersion,
               capabilities: {
                 experimental: {},
                 tools: {
                   listChanged: false
-                }
+                },
+                resources: {
+                  listChanged: false
+                },
+                prompts: {
+                  listChanged: false
+                },
+                logging: {},
+                ...(supportsFeature(negotiatedVersion, "completions") && { completions: {} })
               },
               serverInfo: {
                 name: "y-server",
@@ -199,38 +816,146 @@ export class StreamableHTTPServerTransport {
           };
         }
 
+        case "logging/setLevel": {
+          const { params } = SetLevelRequestSchema.parse(request);
+
+          if (this.session?.state) {
+            await this.session.save({ ...this.session.state, logLevel: params.level });
+          } else if (!this.session) {
+            this.setStatelessLogLevel(callerId, params.level);
+          }
+
+          return {
+            jsonrpc: "2.0",
+            result: {},
+            id: request.id,
+          };
+        }
+
         case "tools/list": {
-          ListToolsRequestSchema.parse(request);
+          const { params } = ListToolsRequestSchema.parse(request);
+          const page = paginate(
+            getTools(integrations, readOnly),
+            params?.cursor,
+            getPageSize(env),
+            listFingerprint(request.method, integrations, readOnly)
+          );
 
           return {
             jsonrpc: "2.0",
             result: {
-              tools: getTools(integrations),
+              tools: page.items.map(tool => adaptToolForVersion(tool, protocolVersion)),
+              ...(page.nextCursor && { nextCursor: page.nextCursor }),
             },
             id: request.id,
           };
         }
 
         case "resources/list": {
+          const { params } = ListResourcesRequestSchema.parse(request);
+          const page = paginate(
+            await listResources({ credentials, env, integrations, callerId }),
+            params?.cursor,
+            getPageSize(env),
+            listFingerprint(request.method, integrations, callerId)
+          );
+
           return {
             jsonrpc: "2.0",
             result: {
-              resources: [],
+              resources: page.items,
+              ...(page.nextCursor && { nextCursor: page.nextCursor }),
             },
             id: request.id,
           };
         }
 
-        case "resourceTemplates/list": {
+        case "resources/read": {
+          const { params } = ReadResourceRequestSchema.parse(request);
+
           return {
             jsonrpc: "2.0",
             result: {
-              resourceTemplates: [],
+              contents: await readResource(params.uri, { credentials, env, integrations, callerId }),
             },
             id: request.id,
           };
         }
 
+        case "resources/templates/list": {
+          const { params } = ListResourceTemplatesRequestSchema.parse(request);
+          const page = paginate(
+            getResourceTemplates({ credentials, env, integrations, callerId }),
+            params?.cursor,
+            getPageSize(env),
+            listFingerprint(request.method, integrations)
+          );
+
+          return {
+            jsonrpc: "2.0",
+            result: {
+              resourceTemplates: page.items,
+              ...(page.nextCursor && { nextCursor: page.nextCursor }),
+            },
+            id: request.id,
+          };
+        }
+
+        case "prompts/list": {
+          const { params } = ListPromptsRequestSchema.parse(request);
+          const page = paginate(
+            getPrompts(integrations, readOnly),
+            params?.cursor,
+            getPageSize(env),
+            listFingerprint(request.method, integrations, readOnly)
+          );
+
+          return {
+            jsonrpc: "2.0",
+            result: {
+              prompts: page.items,
+              ...(page.nextCursor && { nextCursor: page.nextCursor }),
+            },
+            id: request.id,
+          };
+        }
+
+        case "prompts/get": {
+          const { params } = GetPromptRequestSchema.parse(request);
+
+          return {
+            jsonrpc: "2.0",
+            result: getPrompt(params.name, params.arguments, integrations, readOnly),
+            id: request.id,
+          };
+        }
+
+        case "completion/complete": {
+          const params = request.params as {
+            ref?: CompletionReference;
+            argument?: { name?: unknown; value?: unknown };
+            context?: { arguments?: Record<string, string> };
+          } | undefined;
+          const argument = params?.argument;
+
+          if (!params?.ref || typeof argument?.name !== "string" || typeof argument.value !== "string") {
+            throw new McpError(ErrorCode.InvalidParams, "completion/complete requires ref and argument");
+          }
+
+          const completion = await complete(
+            params.ref,
+            { name: argument.name, value: argument.value },
+            { credentials, env, integrations, callerId, arguments: params.context?.arguments ?? {} },
+            readOnly
+          );
+
+          return {
+            jsonrpc: "2.0",
+            result: { completion },
+            id: request.id,
+          };
+        }
+
         case "tools/call": {
           CallToolRequestSchema.parse(request);
           const params = request.params as { name: string; arguments: unknown };
@@ -240,13 +965,52 @@ export class StreamableHTTPServerTransport {
             throw new McpError(ErrorCode.InvalidParams, "No arguments provided");
           }
 
-          const results = await handleToolCall(name, args, token, env);
+          if (readOnly && !isReadOnlyTool(name)) {
+            throw new McpError(ErrorCode.InvalidParams, `Tool ${name} is not available in read-only mode`);
+          }
+
+          // Calls over the caller's limits are rejected before reaching the tool
+          const rateLimit = this.isRateLimitedCall(request, scope) ? await this.checkToolRateLimit(request, scope) : undefined;
+          if (rateLimit) {
+            scope.rateLimits.push(rateLimit);
+            if (!rateLimit.allowed) {
+              const retryAfter = retryAfterSeconds(rateLimit);
+              throw new McpError(
+                RATE_LIMIT_EXCEEDED,
+                `Rate limit exceeded for ${name} (${rateLimit.limit} calls per ${rateLimit.window === "daily" ? "day" : "burst window"}), retry after ${retryAfter} seconds`,
+                { retryAfter, limit: rateLimit.limit, window: rateLimit.window, resetAt: new Date(rateLimit.resetAt).toISOString() }
+              );
+            }
+          }
+
+          let result: ToolCallResultPayload;
+          try {
+            // Hand the tool only the secret of its own integration
+            const integration = getToolIntegration(name);
+            const apiKey = integration ? credentials.require(integration) : "";
+            const output = await handleToolCall(name, args, apiKey, env, {
+              ...context,
+              callerId,
+              requestId: scope.requestId,
+              waitUntil: scope.waitUntil,
+            });
+            result = toToolCallResult(output);
+          } catch (error) {
+            // Protocol errors stay JSON-RPC errors, tool failures become isError results
+            if (error instanceof McpError) {
+              throw error;
+            }
+            if (!context.signal?.aborted) {
+              context.logger?.error(`Error calling tool ${name}`, {
+                error: error instanceof Error ? error.message : String(error),
+              });
+            }
+            result = toToolErrorResult(toToolError(error));
+          }
+
           return {
             jsonrpc: "2.0",
-            result: {
-              content: [{ type: "text", text: results }],
-              isError: false
-            },
+            result: adaptToolResultForVersion(result, protocolVersion),
             id: request.id,
           };
         }
@@ -261,6 +1025,7 @@ export class StreamableHTTPServerTransport {
           error: {
             code: error.code,
             message: error.message,
+            ...(error.data !== undefined && { data: error.data }),
           },
           id: request.id,
         };
@@ -0,0 +1,103 @@
+/**
+ * Cursor pagination for the list methods
+ * Cursors are opaque to clients: they encode the offset of the next page and a
+ * fingerprint of the filter the list was built with (method, integrations,
+ * read-only mode), so a cursor is only accepted by the same list it came from
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Env } from "../types/index";
+
+// Page size used when LIST_PAGE_SIZE is not configured
+export const DEFAULT_PAGE_SIZE = 50;
+
+export interface Page<T> {
+  items: T[];
+  // Set when more items follow
+  nextCursor?: string;
+}
+
+interface CursorData {
+  // Offset of the first item of the page
+  o: number;
+  // Fingerprint of the list filter
+  f: string;
+}
+
+/**
+ * Read the configured page size
+ *
+ * @param env - Cloudflare Worker environment
+ * @returns LIST_PAGE_SIZE when it is a positive integer, the default otherwise
+ */
+export function getPageSize(env: Env): number {
+  const size = Number(env.LIST_PAGE_SIZE);
+  return Number.isInteger(size) && size > 0 ? size : DEFAULT_PAGE_SIZE;
+}
+
+/**
+ * Build the fingerprint of a list filter
+ * Integrations are normalized, so the order or duplicates in X-Integrations do
+ * not invalidate cursors
+ *
+ * @param method - List method, e.g. "tools/list"
+ * @param integrations - Integrations requested by the client
+ * @param extra - Further values the list depends on, e.g. the read-only flag
+ * @returns Short fingerprint string
+ */
+export function listFingerprint(method: string, integrations: string[], ...extra: unknown[]): string {
+  const normalized = [...new Set(integrations)].sort();
+  return fnv1a(JSON.stringify([method, normalized, ...extra]));
+}
+
+/**
+ * Return one page of a list
+ *
+ * @param items - Full list in a stable order
+ * @param cursor - Cursor sent by the client, undefined for the first page
+ * @param pageSize - Maximum number of items per page
+ * @param fingerprint - Fingerprint of the list filter, see listFingerprint
+ * @returns Items of the page and the cursor of the next one
+ */
+export function paginate<T>(items: T[], cursor: string | undefined, pageSize: number, fingerprint: string): Page<T> {
+  const offset = cursor === undefined ? 0 : decodeCursor(cursor, fingerprint);
+  const end = offset + pageSize;
+
+  return {
+    items: items.slice(offset, end),
+    ...(end < items.length && { nextCursor: encodeCursor({ o: end, f: fingerprint }) }),
+  };
+}
+
+function encodeCursor(data: CursorData): string {
+  return btoa(JSON.stringify(data)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodeCursor(cursor: string, fingerprint: string): number {
+  let data: Partial<CursorData>;
+  try {
+    data = JSON.parse(atob(cursor.replace(/-/g, "+").replace(/_/g, "/")));
+    if (typeof data !== "object" || data === null) {
+      throw new TypeError("Cursor is not an object");
+    }
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  }
+
+  if (!Number.isInteger(data.o) || data.o! < 0) {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  }
+  if (data.f !== fingerprint) {
+    throw new McpError(ErrorCode.InvalidParams, "Cursor does not match the current list filter");
+  }
+  return data.o!;
+}
+
+// 32-bit FNV-1a hash, enough to tell filters apart
+function fnv1a(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
@@ -0,0 +1,167 @@
+/**
+ * MCP protocol version negotiation and feature gating
+ * Newer protocol revisions add fields to tool definitions and results that
+ * older clients cannot parse, so they are stripped for those clients
+ */
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ToolOutput } from "../types/index";
+import { QuotaError, ToolError } from "../utils/error_utils";
+
+// Supported protocol versions, newest first
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+// Version assumed when a client omits the MCP-Protocol-Version header
+export const DEFAULT_PROTOCOL_VERSION = "2025-03-26";
+
+export const PROTOCOL_VERSION_HEADER = "MCP-Protocol-Version";
+
+// Features introduced after the first protocol revision
+export type ProtocolFeature =
+  | "progressMessages"
+  | "toolAnnotations"
+  | "structuredContent"
+  | "resourceLinks"
+  | "elicitation"
+  | "completions";
+
+// First protocol version supporting each feature
+const FEATURE_VERSIONS: Record<ProtocolFeature, string> = {
+  progressMessages: "2025-03-26",
+  toolAnnotations: "2025-03-26",
+  structuredContent: "2025-06-18",
+  resourceLinks: "2025-06-18",
+  elicitation: "2025-06-18",
+  completions: "2025-03-26",
+};
+
+// Loose shape of a tools/call result as built by the transport
+export interface ToolCallResultPayload {
+  content: Array<{ type: string; [key: string]: unknown }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Check whether a protocol version is supported by this server
+ */
+export function isSupportedProtocolVersion(version: string): boolean {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(version);
+}
+
+/**
+ * Pick the protocol version to answer an initialize request with
+ * Echoes the client's version if supported, otherwise the newest supported one
+ *
+ * @param requested - Protocol version requested by the client
+ * @returns Negotiated protocol version
+ */
+export function negotiateProtocolVersion(requested: string): string {
+  return isSupportedProtocolVersion(requested) ? requested : LATEST_PROTOCOL_VERSION;
+}
+
+/**
+ * Check whether a negotiated protocol version supports a feature
+ * Versions are ISO dates, so they compare lexicographically
+ */
+export function supportsFeature(version: string, feature: ProtocolFeature): boolean {
+  return version >= FEATURE_VERSIONS[feature];
+}
+
+/**
+ * Strip tool definition fields the negotiated protocol version does not know
+ *
+ * @param tool - Tool definition
+ * @param version - Negotiated protocol version
+ * @returns Tool definition safe to send to the client
+ */
+export function adaptToolForVersion(tool: Tool, version: string): Tool {
+  const adapted: Tool = { ...tool };
+
+  if (!supportsFeature(version, "toolAnnotations")) {
+    delete adapted.annotations;
+  }
+
+  if (!supportsFeature(version, "structuredContent")) {
+    delete adapted.outputSchema;
+    delete adapted.title;
+  }
+
+  return adapted;
+}
+
+/**
+ * Build a tools/call result for the newest protocol version from a tool's output
+ * Text becomes a single text block, content arrays are passed through as is and
+ * structured output is sent as structuredContent plus a text block fallback
+ *
+ * @param output - Value returned by handleToolCall
+ * @returns tools/call result, to be passed through adaptToolResultForVersion
+ */
+export function toToolCallResult(output: ToolOutput): ToolCallResultPayload {
+  if (typeof output === "string") {
+    return { content: [{ type: "text", text: output }], isError: false };
+  }
+
+  if (Array.isArray(output)) {
+    return { content: output, isError: false };
+  }
+
+  return {
+    content: [{ type: "text", text: output.text ?? JSON.stringify(output.structuredContent) }],
+    structuredContent: output.structuredContent,
+    isError: false,
+  };
+}
+
+/**
+ * Build an isError tools/call result from a failed tool call
+ * The machine-readable error details are sent in _meta.error
+ *
+ * @param error - Typed error thrown by the tool
+ * @returns tools/call result
+ */
+export function toToolErrorResult(error: ToolError): ToolCallResultPayload {
+  return {
+    content: [{ type: "text", text: `Error: ${error.message}` }],
+    isError: true,
+    _meta: {
+      error: {
+        code: error.code,
+        retryable: error.retryable,
+        ...(error.status !== undefined && { status: error.status }),
+        ...(error instanceof QuotaError && error.retryAfterSeconds !== undefined && { retryAfter: error.retryAfterSeconds }),
+      },
+    },
+  };
+}
+
+/**
+ * Strip tool result fields the negotiated protocol version does not know
+ * Resource links are downgraded to text blocks so the URI is not lost
+ *
+ * @param result - tools/call result
+ * @param version - Negotiated protocol version
+ * @returns Result safe to send to the client
+ */
+export function adaptToolResultForVersion(result: ToolCallResultPayload, version: string): ToolCallResultPayload {
+  const adapted: ToolCallResultPayload = { ...result };
+
+  if (!supportsFeature(version, "structuredContent")) {
+    delete adapted.structuredContent;
+  }
+
+  if (!supportsFeature(version, "resourceLinks")) {
+    adapted.content = result.content.map(block => {
+      if (block.type !== "resource_link") {
+        return block;
+      }
+      const label = block.name || block.title || block.uri;
+      return { type: "text", text: `${label}: ${block.uri}` };
+    });
+  }
+
+  return adapted;
+}
@@ -1,3 +1,5 @@
+import { ClientCapabilities, Implementation, LoggingLevel, Prompt, PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+
 // Cloudflare Worker specific types
 export interface Env {
   // Cloudflare account id for Browser Rendering
@@ -6,9 +8,200 @@ export interface Env {
   CLOUDFLARE_BROWSER_RENDER_API_TOKEN: string;
   // R2 bucket for storing images
   CDN_BUCKET: R2Bucket;
+  // Session mode, "stateful" enables Mcp-Session-Id sessions (defaults to stateless)
+  SESSION_MODE?: string;
+  // Idle time in seconds after which a stateful session expires (defaults to 24 hours)
+  SESSION_TTL_SECONDS?: string;
+  // Durable Object namespace holding one object per stateful session
+  MCP_SESSIONS?: DurableObjectNamespace;
+  // "true" hides and rejects every tool not annotated as read-only
+  READ_ONLY_MODE?: string;
+  // Maximum number of items per page of tools/list, resources/list and prompts/list (defaults to 50)
+  LIST_PAGE_SIZE?: string;
+  // Maximum number of batched JSON-RPC requests executed concurrently (defaults to 4)
+  BATCH_CONCURRENCY?: string;
+  // JSON map of caller id (or "*") to the tools that ask the user before acting, see utils/confirmation_utils.ts
+  CONFIRMATION_POLICY?: string;
+  // KV namespace holding the encrypted credential vaults, see auth/vault.ts
+  CREDENTIAL_VAULT?: KVNamespace;
+  // Base64 encoded 32-byte AES-GCM key encrypting the vaults, set as a Worker secret
+  VAULT_ENCRYPTION_KEY?: string;
+  // Key used before the last key rotation, still accepted when decrypting
+  VAULT_PREVIOUS_ENCRYPTION_KEY?: string;
+  // "true" requires OAuth access tokens issued by this server on the MCP endpoint, see auth/oauth.ts
+  OAUTH_ENABLED?: string;
+  // KV namespace holding OAuth clients, authorization codes and tokens
+  OAUTH_KV?: KVNamespace;
+  // Durable Object namespace holding one rate limiter per caller, enables rate limiting
+  RATE_LIMITER?: DurableObjectNamespace;
+  // JSON map of tool name (or "*") to its burst and daily limits, see ratelimit/rate_limits.ts
+  RATE_LIMITS?: string;
+  // D1 database recording the usage of every tool call, see usage/usage_store.ts
+  USAGE_DB?: D1Database;
+  // Bearer token allowed to read the usage of every caller from /usage, set as a Worker secret
+  USAGE_ADMIN_TOKEN?: string;
+  // D1 database holding the audit log of side-effecting tool calls, auditing is off when unbound
+  AUDIT_DB?: D1Database;
+  // Bearer token allowed to read the audit log of every caller from /audit, set as a Worker secret
+  AUDIT_ADMIN_TOKEN?: string;
+  // Durable Object namespace of MetricsObject, tool and upstream metrics are off when unbound
+  METRICS?: DurableObjectNamespace;
+  // Bearer token allowed to scrape /metrics, set as a Worker secret
+  METRICS_TOKEN?: string;
 }
 
 export interface ExecutionContext {
   waitUntil(promise: Promise<any>): void;
   passThroughOnException(): void;
 }
+
+// Progress reporting callback handed to long-running tools
+export type ProgressCallback = (progress: number, total?: number, message?: string) => void;
+
+// Answer of the user to an elicitation/create request
+export interface ElicitResult {
+  action: "accept" | "decline" | "cancel";
+  // Form values, only present when the user accepted
+  content?: Record<string, unknown>;
+}
+
+// Asks the user for input through the client, see transport/client_requests.ts
+export type ElicitCallback = (message: string, requestedSchema: Record<string, unknown>, signal?: AbortSignal) => Promise<ElicitResult>;
+
+// Completion requested from the client's model with sampling/createMessage
+export interface SamplingRequest {
+  prompt: string;
+  systemPrompt?: string;
+  maxTokens: number;
+}
+
+// Asks the client's model for a text completion, see transport/client_requests.ts
+export type SampleCallback = (request: SamplingRequest, signal?: AbortSignal) => Promise<string>;
+
+// Logger handed to tools, see utils/log_utils.ts
+export interface Logger {
+  log(level: LoggingLevel, message: string, data?: Record<string, unknown>): void;
+  debug(message: string, data?: Record<string, unknown>): void;
+  info(message: string, data?: Record<string, unknown>): void;
+  warning(message: string, data?: Record<string, unknown>): void;
+  error(message: string, data?: Record<string, unknown>): void;
+}
+
+// Per-call context passed from the transport through handleToolCall into tools
+export interface ToolContext {
+  // Reports progress back to the client, only set when the client asked for it
+  onProgress?: ProgressCallback;
+  // Stable id derived from the caller's token, used to scope uploads
+  callerId?: string;
+  // Aborted when the client cancels the request or disconnects
+  signal?: AbortSignal;
+  // Writes to Workers logs and, on streamed responses, to the client
+  logger?: Logger;
+  // Asks the user for input, only set when the client supports elicitation
+  elicit?: ElicitCallback;
+  // Asks the client's model for a completion, only set when the client supports sampling
+  sample?: SampleCallback;
+  // Whether the confirmation policy requires the user to approve this call
+  confirmationRequired?: boolean;
+  // Adds the cost reported by the provider, in US dollars, to the usage record of this call
+  reportCost?: (costDollars: number) => void;
+  // Adds ids of what the call created or changed (message id, event id, ETag) to its audit record
+  reportAffected?: (ids: Record<string, string | null | undefined>) => void;
+  // Id of the HTTP request the call belongs to, sent upstream as X-Request-Id
+  requestId?: string;
+  // Adds an upstream request made by the call to its metrics
+  reportUpstream?: (call: UpstreamCall) => void;
+  // Keeps the Worker running until the promise settles, for writes that need not delay the response
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+// Request a tool made to an upstream service
+export interface UpstreamCall {
+  // Service name, e.g. tavily, exa, e2b
+  service: string;
+  // HTTP status, "ok" for SDK calls that succeeded, "error" when no response was received
+  status: number | "ok" | "error";
+  latencyMs: number;
+}
+
+// MCP tool annotations, not yet typed by the SDK version in use
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+// Tool result carrying structured content for tools that declare an outputSchema
+export interface StructuredToolOutput {
+  // Object matching the tool's outputSchema
+  structuredContent: Record<string, unknown>;
+  // Text fallback for clients without structured content support, defaults to the JSON
+  text?: string;
+}
+
+// Content block a tool can return in a tools/call result
+export type ToolContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "resource_link"; uri: string; name: string; mimeType?: string; description?: string };
+
+// Anything a tool may return to handleToolCall
+export type ToolOutput = string | ToolContent[] | StructuredToolOutput;
+
+// Secrets of the integrations, resolved per request, see auth/credentials.ts
+export interface CredentialStore {
+  // Secret sent for an integration, undefined if there is none
+  get(integration: string): string | undefined;
+  // Secret sent for an integration, throws an AuthError naming the integration if there is none
+  require(integration: string): string;
+}
+
+// Context for listing and reading MCP resources
+export interface ResourceContext {
+  credentials: CredentialStore;
+  env: Env;
+  integrations: string[];
+  callerId?: string;
+}
+
+// Context handed to argument completers
+export interface CompletionContext extends ResourceContext {
+  // Values of the other arguments the client already filled in
+  arguments: Record<string, string>;
+}
+
+// Suggests values for one argument from the partial value typed so far
+export type Completer = (value: string, context: CompletionContext) => Promise<string[]> | string[];
+
+// Prompt served through prompts/list and prompts/get
+export interface PromptDefinition {
+  prompt: Prompt;
+  // Tools the rendered messages refer to, the prompt is only listed when all are available
+  tools: string[];
+  render(args: Record<string, string>): PromptMessage[];
+  // Completers for completion/complete, keyed by argument name
+  completions?: Record<string, Completer>;
+}
+
+// Negotiated state kept for a stateful MCP session
+export interface SessionState {
+  protocolVersion: string;
+  clientCapabilities: ClientCapabilities;
+  clientInfo?: Implementation;
+  createdAt: number;
+  lastActivityAt: number;
+  // Minimum level of log notifications, set with logging/setLevel
+  logLevel?: LoggingLevel;
+  // OAuth user that initialized the session, only that user may use it
+  userId?: string;
+}
+
+// Handle given to the transport when it runs inside a session
+export interface SessionHandle {
+  id: string;
+  // Undefined until the session has been initialized
+  state?: SessionState;
+  save(state: SessionState): Promise<void>;
+}
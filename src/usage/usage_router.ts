@@ -0,0 +1,148 @@
+/**
+ * Usage reports
+ *   GET /usage?from=YYYY-MM-DD&to=YYYY-MM-DD&groupBy=user,tool,day&tool=<name>&user=<caller id>
+ * Callers authenticate like on the MCP endpoint and only see their own usage.
+ * The USAGE_ADMIN_TOKEN Bearer token sees every caller and may filter by user
+ */
+import { CallerAuthError, isAdminRequest, resolveCallerId } from "../auth/caller";
+import { Env } from "../types/index.js";
+import { USAGE_DIMENSIONS, UsageDimension, UsageQuery, UsageStore } from "./usage_store";
+import { consoleLogger } from "../utils/log_utils";
+
+export const USAGE_PATH = "/usage";
+
+// Days covered when the request names no range, and the longest range accepted
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+// Request rejected by the usage API, answered with its status
+class UsageRequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Check whether a request targets the usage API
+ *
+ * @param request - Incoming request
+ * @returns True for /usage
+ */
+export function isUsageRequest(request: Request): boolean {
+  return new URL(request.url).pathname === USAGE_PATH;
+}
+
+/**
+ * Handle a request to the usage API
+ *
+ * @param request - Incoming request
+ * @param env - Worker environment
+ * @returns JSON usage report
+ */
+export async function handleUsageRequest(request: Request, env: Env): Promise<Response> {
+  if (request.method === "OPTIONS") {
+    return new Response(null, { headers: CORS_HEADERS });
+  }
+  if (request.method !== "GET") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const store = UsageStore.fromEnv(env);
+  if (!store) {
+    return jsonResponse(501, { error: "Usage metering is not configured" });
+  }
+
+  try {
+    const isAdmin = await isAdminRequest(request, env.USAGE_ADMIN_TOKEN);
+    const callerId = isAdmin ? undefined : await resolveCallerId(request, env);
+    const query = parseQuery(new URL(request.url).searchParams, isAdmin, callerId);
+
+    const rows = await store.aggregate(query);
+    const totals = rows.reduce(
+      (sum, row) => ({
+        calls: sum.calls + row.calls,
+        errors: sum.errors + row.errors,
+        totalLatencyMs: sum.totalLatencyMs + row.totalLatencyMs,
+        bytes: sum.bytes + row.bytes,
+        costDollars: sum.costDollars + row.costDollars,
+      }),
+      { calls: 0, errors: 0, totalLatencyMs: 0, bytes: 0, costDollars: 0 }
+    );
+
+    return jsonResponse(200, { from: query.from, to: query.to, groupBy: query.groupBy, rows, totals });
+  } catch (error) {
+    if (error instanceof UsageRequestError || error instanceof CallerAuthError) {
+      return jsonResponse(error.status, { error: error.message });
+    }
+    consoleLogger.error("Error handling usage request", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return jsonResponse(500, { error: "Internal error" });
+  }
+}
+
+/**
+ * Read the date range, grouping and filters of a usage request
+ *
+ * @param callerId - Caller the report is restricted to, undefined for admins
+ */
+function parseQuery(params: URLSearchParams, isAdmin: boolean, callerId?: string): UsageQuery {
+  const to = parseDay(params.get("to"), "to") ?? new Date().toISOString().substring(0, 10);
+  const from = parseDay(params.get("from"), "from")
+    ?? new Date(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS).toISOString().substring(0, 10);
+
+  const days = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+  if (days < 1 || days > MAX_RANGE_DAYS) {
+    throw new UsageRequestError(400, `from must not be after to, and the range must not exceed ${MAX_RANGE_DAYS} days`);
+  }
+
+  const groupByParam = params.get("groupBy");
+  const groupBy = groupByParam === null
+    ? USAGE_DIMENSIONS
+    : groupByParam.split(",").map(value => value.trim()).filter(Boolean);
+  const unknown = groupBy.filter(value => !USAGE_DIMENSIONS.includes(value as UsageDimension));
+  if (unknown.length > 0) {
+    throw new UsageRequestError(400, `Unknown groupBy dimension: ${unknown.join(", ")}, expected ${USAGE_DIMENSIONS.join(", ")}`);
+  }
+
+  const user = params.get("user");
+  if (user && !isAdmin) {
+    throw new UsageRequestError(403, "Only the admin token can read the usage of other users");
+  }
+
+  return {
+    from,
+    to,
+    groupBy: [...new Set(groupBy)] as UsageDimension[],
+    callerId: callerId ?? (user || undefined),
+    tool: params.get("tool") || undefined,
+  };
+}
+
+/**
+ * Validate a YYYY-MM-DD date parameter
+ */
+function parseDay(value: string | null, name: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new UsageRequestError(400, `${name} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store", ...CORS_HEADERS },
+  });
+}
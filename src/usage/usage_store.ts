@@ -0,0 +1,192 @@
+/**
+ * Usage metering of tool calls
+ * Every call made through handleToolCall is recorded in the USAGE_DB D1 database
+ * with its caller, latency, size of the result, outcome and, for providers that
+ * report it, its cost. The table is created on first use:
+ *   tool_usage(created_at, day, caller_id, tool, integration, latency_ms, bytes,
+ *              success, error_code, cost_dollars)
+ */
+import { Env } from "../types/index.js";
+import { consoleLogger } from "../utils/log_utils";
+
+// One tool call
+export interface UsageRecord {
+  // Caller id (see getCallerId), "anonymous" for callers without credentials
+  callerId: string;
+  tool: string;
+  integration?: string;
+  latencyMs: number;
+  // Size of the serialized result, 0 for failed calls
+  bytes: number;
+  success: boolean;
+  // ToolErrorCode of failed calls
+  errorCode?: string;
+  // Cost reported by the provider, in US dollars
+  costDollars?: number;
+}
+
+// Dimensions usage can be grouped by
+export type UsageDimension = "user" | "tool" | "day";
+
+export const USAGE_DIMENSIONS: UsageDimension[] = ["user", "tool", "day"];
+
+// Filters of a usage report, days are inclusive UTC dates (YYYY-MM-DD)
+export interface UsageQuery {
+  from: string;
+  to: string;
+  groupBy: UsageDimension[];
+  callerId?: string;
+  tool?: string;
+}
+
+// Aggregated usage of one group
+export interface UsageRow {
+  user?: string;
+  tool?: string;
+  day?: string;
+  calls: number;
+  errors: number;
+  totalLatencyMs: number;
+  averageLatencyMs: number;
+  bytes: number;
+  costDollars: number;
+}
+
+// Columns backing each dimension
+const DIMENSION_COLUMNS: Record<UsageDimension, string> = {
+  user: "caller_id",
+  tool: "tool",
+  day: "day",
+};
+
+// Databases whose schema was created by this isolate
+const initializedDatabases = new WeakSet<D1Database>();
+
+export class UsageStore {
+  constructor(private readonly db: D1Database) {}
+
+  /**
+   * Open the store configured in the environment
+   *
+   * @param env - Worker environment
+   * @returns The store, or undefined if USAGE_DB is not bound
+   */
+  static fromEnv(env?: Env): UsageStore | undefined {
+    return env?.USAGE_DB ? new UsageStore(env.USAGE_DB) : undefined;
+  }
+
+  /**
+   * Record a tool call
+   *
+   * @param record - The call
+   * @param now - Time of the call, in ms since epoch
+   */
+  async record(record: UsageRecord, now = Date.now()): Promise<void> {
+    await this.ensureSchema();
+    await this.db.prepare(
+      `INSERT INTO tool_usage
+        (created_at, day, caller_id, tool, integration, latency_ms, bytes, success, error_code, cost_dollars)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      now,
+      new Date(now).toISOString().substring(0, 10),
+      record.callerId,
+      record.tool,
+      record.integration ?? null,
+      Math.round(record.latencyMs),
+      record.bytes,
+      record.success ? 1 : 0,
+      record.errorCode ?? null,
+      record.costDollars ?? null
+    ).run();
+  }
+
+  /**
+   * Aggregate usage
+   *
+   * @param query - Date range, grouping and filters
+   * @returns One row per group, ordered by the grouped dimensions
+   */
+  async aggregate(query: UsageQuery): Promise<UsageRow[]> {
+    await this.ensureSchema();
+
+    const conditions = ["day >= ?", "day <= ?"];
+    const params: unknown[] = [query.from, query.to];
+    if (query.callerId) {
+      conditions.push("caller_id = ?");
+      params.push(query.callerId);
+    }
+    if (query.tool) {
+      conditions.push("tool = ?");
+      params.push(query.tool);
+    }
+
+    // Column names come from DIMENSION_COLUMNS only, values are bound
+    const columns = query.groupBy.map(dimension => `${DIMENSION_COLUMNS[dimension]} AS ${dimension}`);
+    const groups = query.groupBy.map(dimension => DIMENSION_COLUMNS[dimension]);
+    const { results } = await this.db.prepare(
+      `SELECT ${[...columns,
+        "COUNT(*) AS calls",
+        "SUM(1 - success) AS errors",
+        "SUM(latency_ms) AS totalLatencyMs",
+        "SUM(bytes) AS bytes",
+        "COALESCE(SUM(cost_dollars), 0) AS costDollars",
+      ].join(", ")}
+        FROM tool_usage
+        WHERE ${conditions.join(" AND ")}
+        ${groups.length ? `GROUP BY ${groups.join(", ")} ORDER BY ${groups.join(", ")}` : ""}`
+    ).bind(...params).all<Omit<UsageRow, "averageLatencyMs">>();
+
+    return results
+      .filter(row => row.calls > 0)
+      .map(row => ({ ...row, averageLatencyMs: Math.round(row.totalLatencyMs / row.calls) }));
+  }
+
+  private async ensureSchema(): Promise<void> {
+    if (initializedDatabases.has(this.db)) {
+      return;
+    }
+    await this.db.batch([
+      this.db.prepare(
+        `CREATE TABLE IF NOT EXISTS tool_usage (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at INTEGER NOT NULL,
+          day TEXT NOT NULL,
+          caller_id TEXT NOT NULL,
+          tool TEXT NOT NULL,
+          integration TEXT,
+          latency_ms INTEGER NOT NULL,
+          bytes INTEGER NOT NULL,
+          success INTEGER NOT NULL,
+          error_code TEXT,
+          cost_dollars REAL
+        )`
+      ),
+      this.db.prepare("CREATE INDEX IF NOT EXISTS tool_usage_day ON tool_usage (day, caller_id, tool)"),
+    ]);
+    initializedDatabases.add(this.db);
+  }
+}
+
+/**
+ * Record a tool call, if usage metering is enabled
+ * Failures are logged and never fail the call itself
+ *
+ * @param env - Worker environment
+ * @param record - The call
+ */
+export async function recordUsage(env: Env | undefined, record: UsageRecord): Promise<void> {
+  const store = UsageStore.fromEnv(env);
+  if (!store) {
+    return;
+  }
+
+  try {
+    await store.record(record);
+  } catch (error) {
+    consoleLogger.warning("Error recording tool usage", {
+      tool: record.tool,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -1,4 +1,5 @@
 // reference: https://github.com/Prcuvu/bilibili-aid-bvid-converter
+import { InvalidInputError } from "./error_utils";
 
 const XOR_CODE = 23442827791579n;
 const MASK_CODE = 2251799813685247n;
@@ -17,7 +18,7 @@ for (let i = 0; i < 58; i++) {
  */
 export function bv2av(x: string): number {
   if (!x.startsWith('BV1') && !x.startsWith('bv1')) {
-    throw new Error('BV id must start with BV1');
+    throw new InvalidInputError('BV id must start with BV1');
   }
   
   // Create mutable array from string
@@ -0,0 +1,69 @@
+/**
+ * Helpers for running async work concurrently
+ * Used by the transport to execute batched JSON-RPC requests
+ */
+
+/**
+ * Maps items with an async function, keeping at most `limit` calls in flight
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Async function applied to every item
+ * @returns Results in the order of the items
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Serializes async tasks sharing a key
+ * Tasks with different keys run in parallel, tasks with the same key run one
+ * after the other in the order they were submitted
+ */
+export class KeyedMutex {
+  private readonly tails = new Map<string, Promise<void>>();
+
+  /**
+   * Run a task once every earlier task with the same key has settled
+   *
+   * @param key - Key of the shared resource
+   * @param task - Task to run
+   * @returns Result of the task
+   */
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+
+    let release!: () => void;
+    const tail = previous.then(() => new Promise<void>(resolve => {
+      release = resolve;
+    }));
+    this.tails.set(key, tail);
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+      // Drop the entry once no later task is queued behind this one
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
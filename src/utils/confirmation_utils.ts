@@ -0,0 +1,98 @@
+/**
+ * User confirmation for tools acting on the user's behalf
+ * CONFIRMATION_POLICY decides which calls need confirmation, without it no call
+ * does. The tools ask through elicitation/create when the client supports it. Tools decide
+ * themselves what to do when confirmation is unavailable
+ */
+import { Env, ToolContext } from "../types/index.js";
+import { consoleLogger } from "./log_utils";
+
+// Tools asking for confirmation when a policy is set but names neither the caller nor "*"
+export const DEFAULT_CONFIRMED_TOOLS = [
+  "google-gmail-create-draft",
+  "google-gmail-reply-email",
+  "google-calendar-delete-event",
+];
+
+// Outcome of asking the user; "unavailable" means the client cannot be asked
+export type ConfirmationOutcome = "confirmed" | "declined" | "unavailable";
+
+// Form shown to the user, a single checkbox
+const CONFIRMATION_SCHEMA = {
+  type: "object",
+  properties: {
+    confirm: {
+      type: "boolean",
+      title: "Confirm",
+      description: "Check to go ahead",
+    },
+  },
+  required: ["confirm"],
+};
+
+/**
+ * Check whether a tool call needs the user's confirmation
+ * CONFIRMATION_POLICY maps caller ids (see getCallerId) or "*" to tool names,
+ * e.g. {"*": ["google-calendar-delete-event"], "0123456789abcdef": []}
+ * The caller's entry wins over "*", and an invalid policy falls back to the defaults.
+ * Without CONFIRMATION_POLICY no tool asks
+ *
+ * @param toolName - Name of the tool being called
+ * @param env - Worker environment
+ * @param callerId - Id of the caller, undefined for anonymous callers
+ * @returns Whether the tool must ask before acting
+ */
+export function requiresConfirmation(toolName: string, env?: Env, callerId?: string): boolean {
+  if (!env?.CONFIRMATION_POLICY) {
+    return false;
+  }
+
+  const policy = parsePolicy(env.CONFIRMATION_POLICY);
+  const tools = (callerId && policy[callerId]) || policy["*"] || DEFAULT_CONFIRMED_TOOLS;
+  return tools.includes(toolName);
+}
+
+/**
+ * Ask the user to confirm an action
+ *
+ * @param context - Tool context carrying the elicitation callback
+ * @param message - Description of the action shown to the user
+ * @returns Whether the user confirmed, declined, or could not be asked
+ */
+export async function requestConfirmation(context: ToolContext, message: string): Promise<ConfirmationOutcome> {
+  if (!context.elicit) {
+    return "unavailable";
+  }
+
+  const result = await context.elicit(message, CONFIRMATION_SCHEMA, context.signal);
+  return result.action === "accept" && result.content?.confirm === true ? "confirmed" : "declined";
+}
+
+/**
+ * Parse CONFIRMATION_POLICY, ignoring entries that are not lists of tool names
+ */
+function parsePolicy(value?: string): Record<string, string[]> {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new Error("Policy must be a JSON object");
+    }
+
+    const policy: Record<string, string[]> = {};
+    for (const [caller, tools] of Object.entries(parsed)) {
+      if (Array.isArray(tools) && tools.every(tool => typeof tool === "string")) {
+        policy[caller] = tools;
+      }
+    }
+    return policy;
+  } catch (error) {
+    consoleLogger.warning("Invalid CONFIRMATION_POLICY, using the default policy", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+}
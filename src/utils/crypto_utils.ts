@@ -0,0 +1,126 @@
+/**
+ * Utility functions built on the Web Crypto API
+ */
+import { arrayBufferToBase64 } from "./r2_utils";
+
+/**
+ * Computes the SHA-256 digest of a string as hex
+ * 
+ * @param input - String to hash
+ * @returns Lowercase hex digest
+ */
+export async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Computes the SHA-256 digest of a string as unpadded base64url, as used by PKCE
+ * 
+ * @param input - String to hash
+ * @returns Base64url digest
+ */
+export async function sha256Base64Url(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * Derives a stable, non-reversible caller id from a bearer token
+ * 
+ * @param token - Bearer token of the caller
+ * @returns Caller id, or undefined for anonymous callers
+ */
+export async function getCallerId(token: string): Promise<string | undefined> {
+  if (!token) {
+    return undefined;
+  }
+  return (await sha256Hex(token)).substring(0, 16);
+}
+
+// Ciphertext produced by encryptText, both parts base64url encoded
+export interface EncryptedText {
+  iv: string;
+  data: string;
+}
+
+/**
+ * Imports an AES-256-GCM key from a base64 encoded 32-byte secret
+ * 
+ * @param secret - Base64 or base64url encoded key material
+ * @returns Key usable with encryptText and decryptText
+ */
+export async function importAesKey(secret: string): Promise<CryptoKey> {
+  const material = fromBase64Url(secret.trim());
+  if (material.length !== 32) {
+    throw new Error('Encryption key must be 32 bytes, base64 encoded');
+  }
+  return crypto.subtle.importKey('raw', material, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Encrypts text with AES-GCM under a fresh random IV
+ * 
+ * @param key - AES-GCM key
+ * @param plaintext - Text to encrypt
+ * @param additionalData - Authenticated context the ciphertext is bound to, e.g. the owner id
+ * @returns IV and ciphertext
+ */
+export async function encryptText(key: CryptoKey, plaintext: string, additionalData: string): Promise<EncryptedText> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(additionalData) },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return { iv: toBase64Url(iv), data: toBase64Url(new Uint8Array(data)) };
+}
+
+/**
+ * Decrypts text produced by encryptText
+ * Fails if the ciphertext was tampered with or bound to other additional data
+ * 
+ * @param key - AES-GCM key
+ * @param encrypted - IV and ciphertext
+ * @param additionalData - Additional data used when encrypting
+ * @returns Plaintext
+ */
+export async function decryptText(key: CryptoKey, encrypted: EncryptedText, additionalData: string): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64Url(encrypted.iv), additionalData: new TextEncoder().encode(additionalData) },
+    key,
+    fromBase64Url(encrypted.data)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Generates a random token, base64url encoded
+ * 
+ * @param bytes - Number of random bytes
+ * @returns Token string
+ */
+export function randomToken(bytes = 32): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/**
+ * Encodes bytes as unpadded base64url
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  return arrayBufferToBase64(bytes)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes base64 or base64url, padded or not
+ */
+export function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - (base64.length % 4 || 4)) % 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
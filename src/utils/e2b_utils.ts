@@ -1,33 +1,139 @@
-import { Sandbox } from "@e2b/code-interpreter";
+import {
+  AuthenticationError,
+  InvalidArgumentError,
+  NotEnoughSpaceError,
+  NotFoundError as SandboxNotFoundError,
+  Sandbox,
+  TimeoutError,
+} from "@e2b/code-interpreter";
+import { ProgressCallback, ToolContext } from "../types/index.js";
+import {
+  AuthError,
+  InvalidInputError,
+  NotFoundError,
+  QuotaError,
+  ToolError,
+  toToolError,
+  UpstreamHttpError,
+} from "./error_utils";
+import { consoleLogger } from "./log_utils";
+import { measureUpstream } from "./upstream_utils";
 
 /**
  * Creates and initializes an E2B sandbox or resumes an existing one
  * 
  * @param apiKey - E2B API key
  * @param sandboxId - Optional sandbox ID to resume
+ * @param context - Tool context the request is reported to
  * @returns Initialized sandbox instance
  */
-export async function createSandbox(apiKey: string, sandboxId?: string): Promise<Sandbox> {
+export async function createSandbox(apiKey: string, sandboxId?: string, context: ToolContext = {}): Promise<Sandbox> {
   if (!apiKey) {
-    throw new Error("API key is required for E2B sandbox");
+    throw new AuthError("API key is required for E2B sandbox");
   }
 
   // Create a new sandbox instance or resume an existing one
-  if (sandboxId) {
-    return await Sandbox.resume(sandboxId, {apiKey});
-  } else {
-    return await Sandbox.create({ apiKey });
+  return measureUpstream("e2b", context, () => sandboxId
+    ? Sandbox.resume(sandboxId, { apiKey })
+    : Sandbox.create({ apiKey }));
+}
+
+/**
+ * Pauses a sandbox after a successful operation
+ * 
+ * @param sandbox - Sandbox to pause
+ * @param context - Tool context the request is reported to
+ * @returns Id to resume the sandbox with
+ */
+export function pauseSandbox(sandbox: Sandbox, context: ToolContext = {}): Promise<string> {
+  return measureUpstream("e2b", context, () => sandbox.pause());
+}
+
+/**
+ * Pauses a sandbox after a failed or cancelled operation so its state is kept
+ * Pause errors are only logged, the caller reports the original error
+ * 
+ * @param sandbox - Sandbox to pause, null if it was never created
+ */
+export async function pauseAfterFailure(sandbox: Sandbox | null): Promise<void> {
+  if (!sandbox) {
+    return;
+  }
+
+  try {
+    await sandbox.pause();
+  } catch (error) {
+    consoleLogger.error("Error pausing sandbox", {
+      sandboxId: sandbox.sandboxId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Waits for a sandbox operation unless the signal aborts first
+ * The SDK does not accept abort signals, so the wait is raced against the signal
+ * 
+ * @param operation - Pending sandbox operation
+ * @param signal - Signal from the tool context
+ * @param onAbort - Called when the signal aborts, e.g. to kill a running command
+ * @returns Result of the operation, rejects with the abort reason when aborted
+ */
+export function untilAborted<T>(operation: Promise<T>, signal?: AbortSignal, onAbort?: () => unknown): Promise<T> {
+  if (!signal) {
+    return operation;
   }
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      Promise.resolve()
+        .then(onAbort)
+        .catch(error => consoleLogger.error("Error stopping sandbox operation", {
+          error: error instanceof Error ? error.message : String(error),
+        }));
+      reject(signal.reason);
+    };
+
+    if (signal.aborted) {
+      abort();
+      return;
+    }
+
+    signal.addEventListener("abort", abort, { once: true });
+    operation
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", abort));
+  });
 }
 
 /**
- * Formats an error message
+ * Converts an error thrown by the E2B SDK into a typed tool error
  * 
  * @param error - Error object or message
- * @returns Formatted error message
+ * @returns Typed error with an "Error in E2B sandbox" message
  */
-export function formatError(error: unknown): string {
-  return `Error in E2B sandbox: ${error instanceof Error ? error.message : String(error)}`;
+export function toE2BError(error: unknown): ToolError {
+  if (error instanceof ToolError) {
+    return error;
+  }
+
+  const message = `Error in E2B sandbox: ${error instanceof Error ? error.message : String(error)}`;
+  if (error instanceof AuthenticationError) {
+    return new AuthError(message);
+  }
+  if (error instanceof SandboxNotFoundError) {
+    return new NotFoundError(message);
+  }
+  if (error instanceof InvalidArgumentError) {
+    return new InvalidInputError(message);
+  }
+  if (error instanceof NotEnoughSpaceError) {
+    return new QuotaError(message);
+  }
+  if (error instanceof TimeoutError) {
+    return new UpstreamHttpError(message);
+  }
+  return toToolError(error, "Error in E2B sandbox");
 }
 
 /**
@@ -51,3 +157,25 @@ export function formatResultWithSandboxInfo(
   
   return `${result}\n\n${sandboxInfo.join("\n")}`;
 }
+
+
+/**
+ * Creates an output handler that forwards sandbox output lines as progress
+ * Each line bumps the progress counter so the client sees the run is alive
+ * 
+ * @param onProgress - Progress callback from the tool context
+ * @returns Output handler, or undefined if progress was not requested
+ */
+export function createOutputProgress(onProgress?: ProgressCallback): ((line: string) => void) | undefined {
+  if (!onProgress) {
+    return undefined;
+  }
+
+  let lines = 0;
+  return (line: string) => {
+    const message = line.trimEnd();
+    if (message) {
+      onProgress(++lines, undefined, message.slice(-200));
+    }
+  };
+}
@@ -1,3 +1,5 @@
+import { InvalidInputError } from "./error_utils";
+
 /**
  * Finds a match where lines match after trimming whitespace.
  */
@@ -107,7 +109,7 @@ export async function applyDiff(diff: string, original: string, isFinal: boolean
           if (match) {
             [matchStartIdx, matchEndIdx] = match;
           } else {
-            throw new Error(`Could not find a match for the SEARCH block in the file.`);
+            throw new InvalidInputError(`Could not find a match for the SEARCH block in the file.`);
           }
         }
       }
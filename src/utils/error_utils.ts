@@ -0,0 +1,159 @@
+/**
+ * Typed errors shared by all tools
+ * Tools throw these instead of returning "Error: ..." strings, and the transport
+ * turns them into isError tool results carrying a machine-readable code
+ */
+
+// Machine-readable error codes sent to clients
+export type ToolErrorCode =
+  | "upstream_error"
+  | "auth_failed"
+  | "quota_exceeded"
+  | "invalid_input"
+  | "not_found"
+  | "not_confirmed"
+  | "internal_error";
+
+export class ToolError extends Error {
+  constructor(
+    message: string,
+    readonly code: ToolErrorCode = "internal_error",
+    // Whether the same call may succeed when retried later
+    readonly retryable = false,
+    // HTTP status returned by the upstream service, if any
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Upstream service failed or returned an unexpected response
+export class UpstreamHttpError extends ToolError {
+  constructor(message: string, status?: number) {
+    super(message, "upstream_error", status === undefined || status >= 500, status);
+  }
+}
+
+// Credentials are missing, invalid or lack the required permissions
+export class AuthError extends ToolError {
+  constructor(message: string, status?: number) {
+    super(message, "auth_failed", false, status);
+  }
+}
+
+// Rate limit or usage quota of the upstream service was hit
+export class QuotaError extends ToolError {
+  constructor(message: string, status?: number, readonly retryAfterSeconds?: number) {
+    super(message, "quota_exceeded", true, status);
+  }
+}
+
+// Arguments were rejected by the tool or the upstream service
+export class InvalidInputError extends ToolError {
+  constructor(message: string, status?: number) {
+    super(message, "invalid_input", false, status);
+  }
+}
+
+// Requested item does not exist
+export class NotFoundError extends ToolError {
+  constructor(message: string, status?: number) {
+    super(message, "not_found", false, status);
+  }
+}
+
+// User declined the action, or could not be asked to confirm it
+export class NotConfirmedError extends ToolError {
+  constructor(message: string) {
+    super(message, "not_confirmed", false);
+  }
+}
+
+/**
+ * Picks the error class matching an upstream HTTP status
+ *
+ * @param status - HTTP status code
+ * @param message - Error message
+ * @param retryAfter - Value of the Retry-After header, if any
+ * @returns Typed error for the status
+ */
+export function errorForStatus(status: number, message: string, retryAfter?: string | null): ToolError {
+  if (status === 401 || status === 403) {
+    return new AuthError(message, status);
+  }
+  if (status === 429) {
+    const seconds = Number(retryAfter);
+    return new QuotaError(message, status, Number.isFinite(seconds) && seconds > 0 ? seconds : undefined);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, status);
+  }
+  if (status === 400 || status === 422) {
+    return new InvalidInputError(message, status);
+  }
+  return new UpstreamHttpError(message, status);
+}
+
+/**
+ * Builds the typed error for a failed upstream response, including the response body
+ *
+ * @param service - Name of the upstream service used in the message
+ * @param response - Response that was not ok
+ * @returns Typed error for the response status
+ */
+export async function upstreamError(service: string, response: Response): Promise<ToolError> {
+  const body = await response.text().catch(() => "");
+  const message = `${service} API error: ${response.status} ${response.statusText}${body ? ` - ${body}` : ""}`;
+  return errorForStatus(response.status, message, response.headers.get("retry-after"));
+}
+
+/**
+ * Converts anything thrown by a tool into a ToolError
+ * Google API (gaxios) and AWS SDK errors are classified by their HTTP status
+ *
+ * @param error - Thrown value
+ * @param prefix - Optional context prepended to the message of unknown errors
+ * @returns Typed error
+ */
+export function toToolError(error: unknown, prefix?: string): ToolError {
+  if (error instanceof ToolError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const fullMessage = prefix ? `${prefix}: ${message}` : message;
+  const status = getErrorStatus(error);
+
+  return status ? errorForStatus(status, fullMessage) : new ToolError(fullMessage);
+}
+
+/**
+ * Extracts the HTTP status from errors thrown by client libraries
+ */
+function getErrorStatus(error: unknown): number | undefined {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+
+  const candidate = error as {
+    code?: unknown;
+    status?: unknown;
+    response?: { status?: unknown };
+    $metadata?: { httpStatusCode?: unknown };
+  };
+  const values = [
+    candidate.response?.status,
+    candidate.status,
+    candidate.$metadata?.httpStatusCode,
+    candidate.code,
+  ];
+
+  for (const value of values) {
+    const status = Number(value);
+    if (Number.isInteger(status) && status >= 400 && status < 600) {
+      return status;
+    }
+  }
+  return undefined;
+}
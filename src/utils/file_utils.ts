@@ -23,3 +23,73 @@ export async function downloadFromUrl(url: string): Promise<ArrayBuffer> {
     throw new Error(`Failed to download from URL: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
+
+// MIME types for common file extensions
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  xml: 'application/xml',
+  json: 'application/json',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+  js: 'text/javascript',
+  ts: 'text/plain',
+  py: 'text/x-python',
+  sh: 'text/x-shellscript',
+  log: 'text/plain',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+};
+
+/**
+ * Guesses the MIME type of a file from its extension
+ * 
+ * @param path - File path or name
+ * @returns The MIME type, or application/octet-stream if unknown
+ */
+export function getMimeType(path: string): string {
+  const extension = path.split('/').pop()?.split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES[extension] || 'application/octet-stream';
+}
+
+/**
+ * Checks whether content of a MIME type can be returned as text
+ * 
+ * @param mimeType - The MIME type to check
+ * @returns True for text based formats
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return (
+    mimeType.startsWith('text/') ||
+    ['application/json', 'application/xml', 'application/yaml', 'image/svg+xml'].includes(mimeType)
+  );
+}
+
+/**
+ * Splits a base64 data URI into its MIME type and payload
+ * 
+ * @param uri - data:<mime>;base64,<data> URI
+ * @returns The MIME type and base64 data, or undefined if the URI is not a base64 data URI
+ */
+export function parseDataUri(uri: string): { mimeType: string; data: string } | undefined {
+  const match = uri.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (!match) {
+    return undefined;
+  }
+  return { mimeType: match[1], data: match[2] };
+}
@@ -0,0 +1,217 @@
+/**
+ * Google API clients for the Gmail and Calendar tools
+ * The google-gmail and google-calendar credentials are either an OAuth access
+ * token, or a refresh-token credential in the authorized_user JSON format of
+ * Google client libraries:
+ *   {"client_id": "...", "client_secret": "...", "refresh_token": "..."}
+ * Access tokens obtained with a refresh token are cached per credential until
+ * shortly before they expire, so only the first call of the hour pays for a refresh.
+ * A cached token Google rejects (e.g. after the user revoked access) is dropped,
+ * and the request is retried once with a freshly refreshed token
+ */
+import { calendar_v3, gmail_v1, google } from "googleapis";
+import { ToolContext } from "../types/index.js";
+import { sha256Hex } from "./crypto_utils";
+import { untilAborted } from "./e2b_utils";
+import { AuthError, upstreamError } from "./error_utils";
+import { fetchUpstream } from "./upstream_utils";
+
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+// Access tokens are refreshed this long before they expire
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Longest wait for Google's token endpoint
+const REFRESH_TIMEOUT_MS = 10 * 1000;
+
+// Refresh-token credential of a Google integration
+export interface GoogleRefreshCredential {
+  client_id: string;
+  client_secret: string;
+  refresh_token: string;
+}
+
+interface CachedAccessToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Access tokens by credential hash, kept for the lifetime of the isolate
+const accessTokens = new Map<string, CachedAccessToken>();
+
+// Refreshes in progress, so concurrent calls of one user share a single refresh
+const pendingRefreshes = new Map<string, Promise<CachedAccessToken>>();
+
+/**
+ * Create a Gmail API client
+ *
+ * @param apiKey - Google Gmail access token or refresh-token credential
+ * @param context - Tool context of the call, its signal stops the wait for a token refresh
+ * @returns Authenticated Gmail client
+ */
+export async function createGmailClient(apiKey: string, context: ToolContext = {}): Promise<gmail_v1.Gmail> {
+  return google.gmail({ version: 'v1', auth: await createOAuthClient(apiKey, context) });
+}
+
+/**
+ * Create a Google Calendar API client
+ *
+ * @param apiKey - Google Calendar access token or refresh-token credential
+ * @param context - Tool context of the call, its signal stops the wait for a token refresh
+ * @returns Authenticated Calendar client
+ */
+export async function createCalendarClient(apiKey: string, context: ToolContext = {}): Promise<calendar_v3.Calendar> {
+  return google.calendar({ version: 'v3', auth: await createOAuthClient(apiKey, context) });
+}
+
+/**
+ * Parse a refresh-token credential
+ *
+ * @param apiKey - Credential of a Google integration
+ * @returns The credential, or undefined if the key is a plain access token
+ * @throws AuthError if the key is JSON but misses one of the required fields
+ */
+export function parseGoogleCredential(apiKey: string): GoogleRefreshCredential | undefined {
+  if (!apiKey.trim().startsWith('{')) {
+    return undefined;
+  }
+
+  let parsed: Partial<Record<keyof GoogleRefreshCredential, unknown>>;
+  try {
+    parsed = JSON.parse(apiKey);
+  } catch {
+    throw new AuthError("Google credential must be an access token or a JSON object with client_id, client_secret and refresh_token");
+  }
+
+  const { client_id, client_secret, refresh_token } = parsed ?? {};
+  if (typeof client_id !== "string" || typeof client_secret !== "string" || typeof refresh_token !== "string"
+    || !client_id || !client_secret || !refresh_token) {
+    throw new AuthError("Google refresh-token credential must contain client_id, client_secret and refresh_token");
+  }
+  return { client_id, client_secret, refresh_token };
+}
+
+/**
+ * Resolve the access token to call Google APIs with
+ *
+ * @param apiKey - Access token or refresh-token credential
+ * @param context - Tool context of the call, its signal stops the wait for a token refresh
+ * @returns A valid access token
+ * @throws AuthError if Google rejects the refresh token or the client
+ */
+export async function getGoogleAccessToken(apiKey: string, context: ToolContext = {}): Promise<string> {
+  const credential = parseGoogleCredential(apiKey);
+  return credential ? (await getCachedAccessToken(credential, context)).accessToken : apiKey;
+}
+
+async function createOAuthClient(apiKey: string, context: ToolContext) {
+  const credential = parseGoogleCredential(apiKey);
+  if (!credential) {
+    const oauth2Client = new google.auth.OAuth2();
+    oauth2Client.setCredentials({ access_token: apiKey });
+    return oauth2Client;
+  }
+
+  // The client calls refreshHandler when the token is about to expire, and once
+  // more when Google rejects it with a 401 or 403, retrying the request with the new token
+  const oauth2Client = new google.auth.OAuth2({ eagerRefreshThresholdMillis: EXPIRY_MARGIN_MS, forceRefreshOnFailure: true });
+  const toCredentials = (token: CachedAccessToken) => ({ access_token: token.accessToken, expiry_date: token.expiresAt });
+  oauth2Client.setCredentials(toCredentials(await getCachedAccessToken(credential, context)));
+  oauth2Client.refreshHandler = async () => {
+    const rejected = oauth2Client.credentials.access_token;
+    if (rejected) {
+      await evictAccessToken(credential, rejected);
+    }
+    return toCredentials(await getCachedAccessToken(credential, context));
+  };
+  return oauth2Client;
+}
+
+/**
+ * Get the cached access token of a refresh-token credential, refreshing it when
+ * it is missing or about to expire
+ */
+async function getCachedAccessToken(credential: GoogleRefreshCredential, context: ToolContext): Promise<CachedAccessToken> {
+  const cacheKey = await getCacheKey(credential);
+  const cached = accessTokens.get(cacheKey);
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return cached;
+  }
+
+  let pending = pendingRefreshes.get(cacheKey);
+  if (!pending) {
+    // Every call waiting for this credential shares the refresh, so it runs with
+    // its own timeout rather than the signal and metrics of the call that started it
+    pending = refreshAccessToken(credential, { requestId: context.requestId, signal: AbortSignal.timeout(REFRESH_TIMEOUT_MS) })
+      .then(token => {
+        accessTokens.set(cacheKey, token);
+        return token;
+      }, error => {
+        accessTokens.delete(cacheKey);
+        throw error;
+      })
+      .finally(() => pendingRefreshes.delete(cacheKey));
+    pendingRefreshes.set(cacheKey, pending);
+  }
+
+  // A cancelled call stops waiting without aborting the refresh for the others
+  return untilAborted(pending, context.signal);
+}
+
+/**
+ * Drop a cached access token Google rejected
+ * Tokens another call has already replaced are kept
+ */
+async function evictAccessToken(credential: GoogleRefreshCredential, accessToken: string): Promise<void> {
+  const cacheKey = await getCacheKey(credential);
+  if (accessTokens.get(cacheKey)?.accessToken === accessToken) {
+    accessTokens.delete(cacheKey);
+  }
+}
+
+function getCacheKey(credential: GoogleRefreshCredential): Promise<string> {
+  return sha256Hex(`${credential.client_id}:${credential.refresh_token}`);
+}
+
+/**
+ * Exchange a refresh token for an access token at Google's token endpoint
+ */
+async function refreshAccessToken(credential: GoogleRefreshCredential, context: ToolContext): Promise<CachedAccessToken> {
+  const response = await fetchUpstream('google', GOOGLE_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      client_id: credential.client_id,
+      client_secret: credential.client_secret,
+      refresh_token: credential.refresh_token,
+    }),
+  }, context);
+
+  if (!response.ok) {
+    const body = await response.clone().json().catch(() => ({})) as { error?: string };
+    if (body.error === 'invalid_grant') {
+      throw new AuthError(
+        "Google refresh token has expired or been revoked. Re-authorize the application with Google " +
+        "and update the credential with the new refresh token",
+        response.status
+      );
+    }
+    if (body.error === 'invalid_client' || body.error === 'unauthorized_client') {
+      throw new AuthError(
+        "Google rejected the client_id or client_secret of the refresh-token credential",
+        response.status
+      );
+    }
+    throw await upstreamError("Google OAuth", response);
+  }
+
+  const data = await response.json() as { access_token?: string; expires_in?: number };
+  if (!data.access_token) {
+    throw new AuthError("Google token endpoint did not return an access token");
+  }
+  return {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Logging shared by the transport and the tools
+ * Every entry is written to the console as a single JSON line for Workers
+ * observability, and forwarded to the MCP client as notifications/message when
+ * a sink is attached and the entry passes the level set with logging/setLevel
+ */
+import { LoggingLevel, LoggingLevelSchema } from "@modelcontextprotocol/sdk/types.js";
+import { Logger } from "../types/index.js";
+
+// Level forwarded to clients that never called logging/setLevel
+export const DEFAULT_CLIENT_LOG_LEVEL: LoggingLevel = "info";
+
+// Header carrying the id of an HTTP request, accepted from clients and sent upstream
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Request ids accepted from clients, anything else is replaced
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Receives the entries forwarded to the client
+export type LogSink = (level: LoggingLevel, logger: string, data: Record<string, unknown>) => void;
+
+export class RequestLogger implements Logger {
+  constructor(
+    readonly name = "y-server",
+    private readonly sink?: LogSink,
+    private readonly clientLevel: LoggingLevel = DEFAULT_CLIENT_LOG_LEVEL,
+    // Fields added to every console entry, e.g. the request id
+    private readonly fields: Record<string, unknown> = {}
+  ) {}
+
+  log(level: LoggingLevel, message: string, data: Record<string, unknown> = {}): void {
+    const line = JSON.stringify({ level, logger: this.name, message, ...this.fields, ...data });
+    if (severity(level) >= severity("error")) {
+      console.error(line);
+    } else if (level === "warning") {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+
+    if (this.sink && severity(level) >= severity(this.clientLevel)) {
+      this.sink(level, this.name, { message, ...data });
+    }
+  }
+
+  debug(message: string, data?: Record<string, unknown>): void {
+    this.log("debug", message, data);
+  }
+
+  info(message: string, data?: Record<string, unknown>): void {
+    this.log("info", message, data);
+  }
+
+  warning(message: string, data?: Record<string, unknown>): void {
+    this.log("warning", message, data);
+  }
+
+  error(message: string, data?: Record<string, unknown>): void {
+    this.log("error", message, data);
+  }
+}
+
+// Logger writing to the console only, used where no request is being served
+export const consoleLogger: Logger = new RequestLogger();
+
+/**
+ * Resolve the id of an HTTP request
+ * Keeps the X-Request-Id sent by the client, so its logs can be matched with ours
+ *
+ * @param request - Incoming request
+ * @returns The client's request id if it is well-formed, otherwise a new one
+ */
+export function resolveRequestId(request: Request): string {
+  const header = request.headers.get(REQUEST_ID_HEADER);
+  return header && REQUEST_ID_PATTERN.test(header) ? header : crypto.randomUUID();
+}
+
+/**
+ * Rank a log level, higher values are more severe
+ *
+ * @param level - Log level
+ * @returns Index of the level in the RFC 5424 order
+ */
+function severity(level: LoggingLevel): number {
+  return LoggingLevelSchema.options.indexOf(level);
+}
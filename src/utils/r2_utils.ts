@@ -2,6 +2,11 @@
  * Utility functions for Cloudflare R2 operations
  */
 import { Env } from "../types/index.js";
+import { getMimeType } from "./file_utils.js";
+import { ToolError } from "./error_utils";
+
+// Public base URL the CDN bucket is served from
+export const CDN_BASE_URL = 'https://cdn.yovy.app/';
 
 /**
  * Generate a unique filename for a file
@@ -31,6 +36,21 @@ export function base64ToArrayBuffer(base64Data: string): ArrayBuffer {
   return bytes.buffer;
 }
 
+/**
+ * Convert an ArrayBuffer to base64
+ * @param buffer - Binary data
+ * @returns Base64 encoded string
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binaryString = '';
+  // Encode in chunks to stay below the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binaryString += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binaryString);
+}
+
 /**
  * Uploads a file to Cloudflare R2 storage
  * 
@@ -46,18 +66,52 @@ export async function uploadToR2(
     filename?: string;
     prefix?: string;
     extension?: string;
+    // Caller id the upload is made for, used to list uploads per caller
+    owner?: string;
   } = {}
 ): Promise<string> {
   if (!env.CDN_BUCKET) {
-    throw new Error('R2 bucket not available');
+    throw new ToolError('R2 bucket not available');
   }
   
   // Generate or use provided filename
   const filename = options.filename || generateUniqueFilename(options.prefix, options.extension);
   
+  // Group uploads made for a caller under their own prefix
+  const key = options.owner ? `${options.owner}/${filename}` : filename;
+  
   // Upload to R2
-  await env.CDN_BUCKET.put(filename, fileData);
+  await env.CDN_BUCKET.put(key, fileData, {
+    httpMetadata: { contentType: getMimeType(filename) },
+  });
   
   // Return CDN URL
-  return `https://cdn.yovy.app/${filename}`;
+  return `${CDN_BASE_URL}${key}`;
+}
+
+/**
+ * Lists the most recent uploads made for a caller
+ * 
+ * @param env - Cloudflare Worker environment containing the R2 bucket
+ * @param owner - Caller id the uploads were made for
+ * @param limit - Maximum number of uploads to return
+ * @returns Uploaded objects, newest first
+ */
+export async function listR2Uploads(env: Env, owner: string, limit: number = 50): Promise<R2Object[]> {
+  if (!env.CDN_BUCKET) {
+    throw new ToolError('R2 bucket not available');
+  }
+  
+  // Keys do not sort by time, so every page is read, keeping only the newest uploads seen so far
+  let newest: R2Object[] = [];
+  let cursor: string | undefined;
+  do {
+    const listing = await env.CDN_BUCKET.list({ prefix: `${owner}/`, limit: 1000, cursor });
+    newest = [...newest, ...listing.objects]
+      .sort((a, b) => b.uploaded.getTime() - a.uploaded.getTime())
+      .slice(0, limit);
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  return newest;
 }
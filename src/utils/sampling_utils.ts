@@ -0,0 +1,70 @@
+/**
+ * Summarization through the client's model
+ * Tools returning large amounts of text offer summarize modes that condense each
+ * item with sampling/createMessage. Clients without the sampling capability get
+ * the raw output, and items whose summary fails are kept unchanged
+ */
+import { ToolContext } from "../types/index.js";
+import { mapConcurrent } from "./concurrency_utils";
+
+// Number of items summarized at once
+const SUMMARY_CONCURRENCY = 3;
+
+// Characters of an item sent to the model, longer items are cut off
+const MAX_SUMMARY_INPUT_LENGTH = 60_000;
+
+const SUMMARY_SYSTEM_PROMPT =
+  "You condense content for another assistant. Reply with the summary only, " +
+  "without preamble, in the language of the content.";
+
+// How an item is condensed
+export interface SummaryInstruction {
+  // Tells the model what kind of summary to write
+  prompt: string;
+  // Upper bound of the summary length
+  maxTokens: number;
+}
+
+/**
+ * Summarize items one by one with the client's model
+ *
+ * @param texts - Text of each item
+ * @param instruction - Kind and length of the summaries
+ * @param context - Tool context providing the sampling callback
+ * @returns Summary of each item, undefined for items that could not be summarized,
+ *   or undefined altogether when the client does not support sampling
+ */
+export async function summarizeEach(
+  texts: string[],
+  instruction: SummaryInstruction,
+  context: ToolContext
+): Promise<Array<string | undefined> | undefined> {
+  const sample = context.sample;
+  if (!sample) {
+    context.logger?.info("Client does not support sampling, returning the full content");
+    return undefined;
+  }
+
+  return mapConcurrent(texts, SUMMARY_CONCURRENCY, async text => {
+    const content = text.length > MAX_SUMMARY_INPUT_LENGTH
+      ? `${text.substring(0, MAX_SUMMARY_INPUT_LENGTH)}\n[truncated]`
+      : text;
+
+    try {
+      const summary = await sample({
+        prompt: `${instruction.prompt}\n\n<content>\n${content}\n</content>`,
+        systemPrompt: SUMMARY_SYSTEM_PROMPT,
+        maxTokens: instruction.maxTokens,
+      }, context.signal);
+      return summary.trim() || undefined;
+    } catch (error) {
+      if (context.signal?.aborted) {
+        throw error;
+      }
+      context.logger?.warning("Error summarizing content, returning it unchanged", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  });
+}
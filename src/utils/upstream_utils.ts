@@ -0,0 +1,75 @@
+/**
+ * Instrumented requests to upstream services
+ * Every request is timed, logged as a structured entry carrying the request id,
+ * and reported to the tool call's metrics through reportUpstream
+ */
+import { ToolContext, UpstreamCall } from "../types/index.js";
+import { consoleLogger, REQUEST_ID_HEADER } from "./log_utils";
+
+/**
+ * Fetch from an upstream service
+ * Sends the request id of the call as X-Request-Id, and aborts with the call's
+ * signal unless init names its own
+ *
+ * @param service - Service name used in logs and metrics, e.g. tavily
+ * @param input - URL or request
+ * @param init - Request options
+ * @param context - Tool context of the call
+ * @returns The response, whatever its status
+ */
+export async function fetchUpstream(service: string, input: RequestInfo | URL, init: RequestInit = {}, context: ToolContext = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (context.requestId && !headers.has(REQUEST_ID_HEADER)) {
+    headers.set(REQUEST_ID_HEADER, context.requestId);
+  }
+
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(input, { ...init, headers, signal: init.signal ?? context.signal });
+    reportUpstream(context, { service, status: response.status, latencyMs: Date.now() - startedAt });
+    return response;
+  } catch (error) {
+    reportUpstream(context, { service, status: "error", latencyMs: Date.now() - startedAt }, error);
+    throw error;
+  }
+}
+
+/**
+ * Time an upstream operation made through an SDK, e.g. creating an E2B sandbox
+ *
+ * @param service - Service name used in logs and metrics, e.g. e2b
+ * @param context - Tool context of the call
+ * @param operation - The operation
+ * @returns Result of the operation
+ */
+export async function measureUpstream<T>(service: string, context: ToolContext, operation: () => Promise<T>): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    const result = await operation();
+    reportUpstream(context, { service, status: "ok", latencyMs: Date.now() - startedAt });
+    return result;
+  } catch (error) {
+    reportUpstream(context, { service, status: "error", latencyMs: Date.now() - startedAt }, error);
+    throw error;
+  }
+}
+
+/**
+ * Log an upstream request and add it to the call's metrics
+ * Failures and 5xx responses are logged as warnings, anything else at debug level
+ */
+function reportUpstream(context: ToolContext, call: UpstreamCall, error?: unknown): void {
+  const logger = context.logger ?? consoleLogger;
+  const failed = call.status === "error" || (typeof call.status === "number" && call.status >= 500);
+  const data = {
+    ...call,
+    ...(error !== undefined && { error: error instanceof Error ? error.message : String(error) }),
+  };
+  if (failed) {
+    logger.warning("Upstream request failed", data);
+  } else {
+    logger.debug("Upstream request", data);
+  }
+
+  context.reportUpstream?.(call);
+}
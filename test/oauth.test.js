@@ -0,0 +1,41 @@
+/**
+ * OAuth enabled without its KV namespace, run against the built worker in Miniflare
+ * Build first with `npm run build`, `npm test` does both
+ */
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { Miniflare } from "miniflare";
+
+let mf;
+
+before(() => {
+  mf = new Miniflare({
+    modules: true,
+    scriptPath: "dist/index.js",
+    compatibilityDate: "2024-09-23",
+    compatibilityFlags: ["nodejs_compat"],
+    bindings: { OAUTH_ENABLED: "true" },
+  });
+});
+
+after(async () => {
+  await mf.dispose();
+});
+
+test("MCP requests get a JSON-RPC error when OAUTH_KV is not bound", async () => {
+  const response = await mf.dispatchFetch("http://localhost/mcp", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Accept": "application/json",
+      "Authorization": "Bearer token",
+    },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+  });
+
+  assert.equal(response.status, 501);
+  const body = await response.json();
+  assert.equal(body.jsonrpc, "2.0");
+  assert.equal(body.error.code, -32603);
+  assert.match(body.error.message, /OAUTH_KV/);
+});
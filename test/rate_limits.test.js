@@ -0,0 +1,77 @@
+/**
+ * Rate limiting of tool calls, run against the built worker in Miniflare
+ * Build first with `npm run build`, `npm test` does both
+ */
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { Miniflare } from "miniflare";
+
+let mf;
+
+before(() => {
+  mf = new Miniflare({
+    modules: true,
+    scriptPath: "dist/index.js",
+    compatibilityDate: "2024-09-23",
+    compatibilityFlags: ["nodejs_compat"],
+    durableObjects: { RATE_LIMITER: "RateLimiterObject" },
+    bindings: {
+      RATE_LIMITS: JSON.stringify({ "tavily-search": { burst: 1, windowSeconds: 60, daily: 10 } }),
+    },
+    // Answers every upstream request like an empty Tavily search
+    outboundService: () => new Response(JSON.stringify({ query: "q", results: [] }), {
+      headers: { "Content-Type": "application/json" },
+    }),
+  });
+});
+
+after(async () => {
+  await mf.dispose();
+});
+
+function callSearch(token) {
+  return mf.dispatchFetch("http://localhost/mcp", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Accept": "application/json",
+      "Authorization": `Bearer ${token}`,
+      "X-Integrations": "tavily",
+    },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: { name: "tavily-search", arguments: { query: "q" } },
+    }),
+  });
+}
+
+test("calls over the burst cap fail with -32029 and report when the window resets", async () => {
+  const allowed = await callSearch("tvly-first");
+  const allowedBody = await allowed.json();
+  assert.equal(allowedBody.result.isError, false);
+  assert.equal(allowed.headers.get("X-RateLimit-Limit"), "1");
+  assert.equal(allowed.headers.get("X-RateLimit-Remaining"), "0");
+  assert.equal(allowed.headers.get("Retry-After"), null);
+
+  const rejected = await callSearch("tvly-first");
+  const rejectedBody = await rejected.json();
+  assert.equal(rejectedBody.error.code, -32029);
+  assert.equal(rejectedBody.error.data.window, "burst");
+  assert.equal(rejectedBody.error.data.limit, 1);
+
+  const reset = Number(rejected.headers.get("X-RateLimit-Reset"));
+  const retryAfter = Number(rejected.headers.get("Retry-After"));
+  assert.equal(reset, Math.ceil(Date.parse(rejectedBody.error.data.resetAt) / 1000));
+  assert.ok(retryAfter >= 1 && retryAfter <= 60);
+  // The header is computed a moment after the error data
+  assert.ok(Math.abs(rejectedBody.error.data.retryAfter - retryAfter) <= 1);
+});
+
+test("each caller has its own limits", async () => {
+  const response = await callSearch("tvly-second");
+  const body = await response.json();
+  assert.equal(body.result.isError, false);
+  assert.equal(response.headers.get("X-RateLimit-Remaining"), "0");
+});
@@ -0,0 +1,73 @@
+/**
+ * Stateful sessions, run against the built worker in Miniflare
+ * Build first with `npm run build`, `npm test` does both
+ */
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { Miniflare } from "miniflare";
+
+let mf;
+
+before(() => {
+  mf = new Miniflare({
+    modules: true,
+    scriptPath: "dist/index.js",
+    compatibilityDate: "2024-09-23",
+    compatibilityFlags: ["nodejs_compat"],
+    durableObjects: { MCP_SESSIONS: "McpSessionObject" },
+    bindings: { SESSION_MODE: "stateful" },
+  });
+});
+
+after(async () => {
+  await mf.dispose();
+});
+
+function initialize(token, accept = "application/json, text/event-stream") {
+  return mf.dispatchFetch("http://localhost/mcp", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Accept": accept,
+      "Authorization": `Bearer ${token}`,
+    },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-06-18",
+        capabilities: {},
+        clientInfo: { name: "test", version: "1.0.0" },
+      },
+    }),
+  });
+}
+
+test("a successful initialize returns the session id, even to SSE only clients", async () => {
+  const response = await initialize("tvly-key", "text/event-stream");
+  const body = await response.json();
+  assert.equal(body.result.protocolVersion, "2025-06-18");
+
+  const sessionId = response.headers.get("Mcp-Session-Id");
+  assert.ok(sessionId);
+
+  const list = await mf.dispatchFetch("http://localhost/mcp", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Accept": "application/json",
+      "Authorization": "Bearer tvly-key",
+      "Mcp-Session-Id": sessionId,
+    },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+  });
+  assert.equal(list.status, 200);
+});
+
+test("a failed initialize returns no session id", async () => {
+  // Vault tokens are rejected when the credential vault is not configured
+  const response = await initialize("yv_unknown");
+  assert.equal(response.status, 401);
+  assert.equal(response.headers.get("Mcp-Session-Id"), null);
+});